@@ -0,0 +1,304 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  findCustomerByPhone,
+  listAuditEntries,
+  listStaff,
+  listStores,
+  type AuditEntry,
+  type StaffMember,
+  type Store
+} from '@/lib/repositories'
+import { formatDollars } from '@/lib/money'
+import { formatPhone, normalizePhone } from '@/lib/phone'
+import { tenantPhoneCountry } from '@/lib/tenant'
+import { useStaff } from '@/hooks/use-staff'
+import { AppHeader } from '@/components/app-header'
+import { StaffMenu } from '@/components/staff-menu'
+import { useTenant } from '@/components/tenant-provider'
+
+const PAGE_SIZE = 25
+
+const ACTION_LABELS: Record<string, string> = {
+  add: 'Earn',
+  redeem: 'Redeem',
+  adjust: 'Adjustment',
+  void: 'Void',
+  refund: 'Refund',
+  expire: 'Expire',
+  bonus: 'Bonus',
+  referral: 'Referral bonus',
+  import: 'Opening balance',
+  referral_create: 'Referral recorded',
+  customer_create: 'Customer created',
+  customer_update: 'Customer edited',
+  merge: 'Customers merged',
+  period_close: 'Period closed',
+  customer_import: 'Customers imported'
+}
+
+// One-line summary of what changed
+function describeDetails(entry: AuditEntry): string {
+  const details = (entry.details ?? {}) as Record<string, any>
+  if (entry.action === 'customer_update' || entry.action === 'customer_create') {
+    const before = details.before ?? {}
+    const after = details.after ?? {}
+    return Object.keys(after)
+      .filter(key => key !== 'id' && key !== 'created_at')
+      .map(key => entry.action === 'customer_update' ? `${key}: ${before[key] ?? '—'} → ${after[key] ?? '—'}` : `${key}: ${after[key] ?? '—'}`)
+      .join(', ')
+  }
+  if (entry.action === 'referral_create') {
+    return `Referred by ${details.referrer_name ?? 'code'} ${details.referral_code}`
+  }
+  if (entry.action === 'merge') {
+    const transactions = details.transactions_moved ?? 0
+    return `Merged ${details.merged_name ?? details.merged_phone_number}: +${details.points_moved ?? 0} pts, ${transactions} transaction${transactions === 1 ? '' : 's'} moved`
+  }
+  if (entry.action === 'customer_import') {
+    return `${details.file_name}: ${details.customers_created} created, ${details.rows_skipped} skipped, ${Number(details.points_imported).toLocaleString()} pts`
+  }
+  if (entry.action === 'period_close') {
+    return `${details.period_start} to ${details.period_end}: ${Number(details.closing_points).toLocaleString()} pts outstanding, ${formatDollars(Number(details.closing_liability))}`
+  }
+  const parts = []
+  if (details.points_changed !== undefined) {
+    parts.push(`${details.points_changed > 0 ? '+' : ''}${details.points_changed} pts`)
+  }
+  if (details.amount) parts.push(`$${details.amount}`)
+  if (details.reason_code) parts.push(details.reason_code)
+  if (details.note) parts.push(`"${details.note}"`)
+  return parts.join(' · ')
+}
+
+export default function AuditPage() {
+  const { role } = useStaff()
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [count, setCount] = useState(0)
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [stores, setStores] = useState<Store[]>([])
+  const [actorId, setActorId] = useState('')
+  const [storeId, setStoreId] = useState('')
+  const [customerPhone, setCustomerPhone] = useState('')
+  const [customerId, setCustomerId] = useState<string | undefined>(undefined)
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [page, setPage] = useState(1)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (role !== 'admin') return
+    listStaff()
+      .then(setStaff)
+      .catch(error => console.error('Error loading staff:', error))
+    listStores()
+      .then(setStores)
+      .catch(error => console.error('Error loading stores:', error))
+  }, [role])
+
+  useEffect(() => {
+    if (role !== 'admin') return
+    const loadEntries = async () => {
+      setLoading(true)
+      try {
+        const result = await listAuditEntries({ actorId, customerId, storeId, startDate, endDate }, page, PAGE_SIZE)
+        setEntries(result.entries)
+        setCount(result.count)
+        setError('')
+      } catch (error) {
+        console.error('Error loading audit log:', error)
+        setError('Failed to load audit log')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadEntries()
+  }, [role, actorId, customerId, storeId, startDate, endDate, page])
+
+  // Reset to the first page whenever a filter changes
+  useEffect(() => {
+    setPage(1)
+  }, [actorId, customerId, storeId, startDate, endDate])
+
+  const handleCustomerFilter = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!customerPhone.trim()) {
+      setCustomerId(undefined)
+      return
+    }
+    try {
+      const phoneNumber = normalizePhone(customerPhone, phoneCountry)
+      if (!phoneNumber) {
+        setError('Enter a valid phone number')
+        return
+      }
+      const customer = await findCustomerByPhone(phoneNumber)
+      if (!customer) {
+        setError('No customer with that phone number')
+        return
+      }
+      setCustomerId(customer.id)
+      setError('')
+    } catch (error) {
+      console.error('Error searching customer:', error)
+      setError('Failed to search customer')
+    }
+  }
+
+  const staffEmail = (id: string | null) =>
+    id ? staff.find(member => member.id === id)?.email ?? id.slice(0, 8) : 'System'
+
+  const storeName = (id: string | null) =>
+    stores.find(store => store.id === id)?.name ?? '—'
+
+  const totalPages = Math.ceil(count / PAGE_SIZE)
+
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4">
+        <div className="bg-white shadow rounded-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold">Audit Log</h2>
+            <Link href="/" className="text-sm font-semibold underline">Back to tracker</Link>
+          </div>
+
+          {role !== 'admin' ? (
+            <p className="text-gray-600">Only admins can view the audit log.</p>
+          ) : (
+            <>
+              {/* Filters */}
+              <div className="flex flex-wrap gap-4 mb-6 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Staff Member</label>
+                  <select
+                    value={actorId}
+                    onChange={e => setActorId(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    <option value="">Everyone</option>
+                    {staff.map(member => (
+                      <option key={member.id} value={member.id}>{member.email}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Store</label>
+                  <select
+                    value={storeId}
+                    onChange={e => setStoreId(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    <option value="">All stores</option>
+                    {stores.map(store => (
+                      <option key={store.id} value={store.id}>{store.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <form onSubmit={handleCustomerFilter}>
+                  <label className="block text-xs font-medium text-gray-700">Customer Phone</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="tel"
+                      value={customerPhone}
+                      onChange={e => setCustomerPhone(e.target.value)}
+                      className="border rounded px-2 py-1"
+                      placeholder="Any customer"
+                    />
+                    <button type="submit" className="px-3 py-1 bg-gray-200 rounded">Filter</button>
+                  </div>
+                </form>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Start Date</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={e => setStartDate(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">End Date</label>
+                  <input
+                    type="date"
+                    value={endDate}
+                    onChange={e => setEndDate(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-4">
+                  {error}
+                </div>
+              )}
+
+              {entries.length === 0 ? (
+                <p className="text-gray-500">{loading ? 'Loading...' : 'No audit entries for these filters.'}</p>
+              ) : (
+                <table className="min-w-full text-left text-sm mb-4">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1">When</th>
+                      <th className="px-2 py-1">Action</th>
+                      <th className="px-2 py-1">Customer</th>
+                      <th className="px-2 py-1">Staff</th>
+                      <th className="px-2 py-1">Store</th>
+                      <th className="px-2 py-1">Terminal</th>
+                      <th className="px-2 py-1">Balance</th>
+                      <th className="px-2 py-1">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <tr key={entry.id} className="border-t">
+                        <td className="px-2 py-1 whitespace-nowrap">{new Date(entry.occurred_at).toLocaleString()}</td>
+                        <td className="px-2 py-1">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                        <td className="px-2 py-1">
+                          {entry.customers ? (entry.customers.name ?? formatPhone(entry.customers.phone_number, phoneCountry)) : '—'}
+                        </td>
+                        <td className="px-2 py-1">{staffEmail(entry.actor_id)}</td>
+                        <td className="px-2 py-1">{storeName(entry.store_id)}</td>
+                        <td className="px-2 py-1 font-mono text-xs">{entry.terminal_id?.slice(0, 8) ?? '—'}</td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {entry.balance_before ?? '—'} → {entry.balance_after ?? '—'}
+                        </td>
+                        <td className="px-2 py-1 text-gray-600">{describeDetails(entry)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {/* Pagination Controls */}
+              <div className="flex justify-between items-center">
+                <button
+                  className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1 || loading}
+                >
+                  Previous
+                </button>
+                <span>Page {page} of {totalPages || 1}</span>
+                <button
+                  className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                  disabled={page >= totalPages || loading}
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
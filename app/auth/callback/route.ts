@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { safeNextPath } from '@/lib/auth'
+import { createServerSupabase } from '@/lib/supabase-server'
+
+// Magic links land here with a one-time code to exchange for a session
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl
+  const code = searchParams.get('code')
+  const next = safeNextPath(searchParams.get('next'))
+
+  if (code) {
+    const supabase = await createServerSupabase()
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+    if (!error) {
+      return NextResponse.redirect(new URL(next, origin))
+    }
+  }
+
+  return NextResponse.redirect(new URL('/login?error=link', origin))
+}
@@ -0,0 +1,203 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { safeNextPath } from '@/lib/auth'
+import { getCustomerProfile } from '@/lib/customers-server'
+import { getCurrentTenant } from '@/lib/tenant-server'
+import { CONSENT_SOURCES, CONTACT_CHANNELS, isContactChannel, type ConsentSource } from '@/lib/messaging'
+import { formatPhone } from '@/lib/phone'
+import { tenantPhoneCountry } from '@/lib/tenant'
+import type { Customer, ReferralWithCustomers, Transaction } from '@/lib/repositories'
+import { AppHeader } from '@/components/app-header'
+import { CustomerDetails } from '@/components/customer-details'
+import { CustomerMerge } from '@/components/customer-merge'
+import { StaffMenu } from '@/components/staff-menu'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+interface CustomerProfilePageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ from?: string }>
+}
+
+// The directory passes its own URL as ?from= so the way back keeps its
+// filters, sort and page
+function backHref(from: string | undefined): string {
+  return safeNextPath(from, '/customers')
+}
+
+// Stored as a plain date, so format it without a timezone shift
+function formatBirthday(birthday: string): string {
+  return new Date(`${birthday}T00:00:00`).toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' })
+}
+
+function describeConsent(customer: Customer): string {
+  if (!customer.marketing_consent) {
+    return customer.marketing_consent_at
+      ? `Opted out ${new Date(customer.marketing_consent_at).toLocaleDateString()}`
+      : 'Not given'
+  }
+  const source = CONSENT_SOURCES[customer.marketing_consent_source as ConsentSource] ?? customer.marketing_consent_source
+  return `Opted in ${new Date(customer.marketing_consent_at!).toLocaleDateString()} (${source})`
+}
+
+function describeReferral(referral: ReferralWithCustomers): string {
+  return referral.status === 'rewarded'
+    ? `Rewarded ${new Date(referral.rewarded_at!).toLocaleDateString()}`
+    : 'Awaiting first purchase'
+}
+
+function describeTransaction(tx: Transaction): string {
+  return tx.type === 'adjust' ? 'Adjustment' : tx.type.charAt(0).toUpperCase() + tx.type.slice(1)
+}
+
+export default async function CustomerProfilePage({ params, searchParams }: CustomerProfilePageProps) {
+  const { id } = await params
+  const { from } = await searchParams
+  const [profile, tenant] = await Promise.all([getCustomerProfile(id), getCurrentTenant()])
+  if (!profile) notFound()
+
+  const { customer, tier, recentTransactions, stores, possibleDuplicates, referrals, referredBy } = profile
+  // Old links to a merged duplicate land on the customer it was merged into
+  if (customer.merged_into_id) {
+    redirect(`/customers/${customer.merged_into_id}${from ? `?from=${encodeURIComponent(from)}` : ''}`)
+  }
+  const phoneCountry = tenantPhoneCountry(tenant)
+  const storeName = (storeId: string | null) =>
+    stores.find(store => store.id === storeId)?.name ?? '—'
+
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4">
+        <Link href={backHref(from)} className="inline-block mb-6 text-sm font-semibold underline">
+          ← Back to customers
+        </Link>
+        <div className="flex flex-col md:flex-row items-start gap-8">
+          {/* Left Column: Profile & Recent Activity */}
+          <div className="flex flex-col gap-8 w-full max-w-xl">
+            <div className="bg-white shadow rounded-xl p-8">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold">{customer.name ?? 'Unnamed customer'}</h2>
+                {tier && <Badge variant="secondary">{tier.name}</Badge>}
+              </div>
+              <dl className="grid grid-cols-2 gap-y-2 text-lg">
+                <dt className="font-semibold">Phone</dt>
+                <dd>{formatPhone(customer.phone_number, phoneCountry)}</dd>
+                <dt className="font-semibold">Points</dt>
+                <dd>{customer.total_points}</dd>
+                <dt className="font-semibold">Member since</dt>
+                <dd>{new Date(customer.created_at).toLocaleDateString()}</dd>
+                <dt className="font-semibold">Last visit</dt>
+                <dd>{customer.last_visit_at ? new Date(customer.last_visit_at).toLocaleDateString() : 'Never'}</dd>
+                <dt className="font-semibold">Email</dt>
+                <dd className="break-all">{customer.email ?? '—'}</dd>
+                <dt className="font-semibold">Birthday</dt>
+                <dd>{customer.birthday ? formatBirthday(customer.birthday) : '—'}</dd>
+                <dt className="font-semibold">Contact by</dt>
+                <dd>{isContactChannel(customer.preferred_contact) ? CONTACT_CHANNELS[customer.preferred_contact] : 'No preference'}</dd>
+                <dt className="font-semibold">Marketing</dt>
+                <dd>{describeConsent(customer)}</dd>
+                <dt className="font-semibold">Referral code</dt>
+                <dd className="font-mono">{customer.referral_code}</dd>
+                {referredBy?.referrer && (
+                  <>
+                    <dt className="font-semibold">Referred by</dt>
+                    <dd>
+                      <Link href={`/customers/${referredBy.referrer.id}`} className="underline">
+                        {referredBy.referrer.name ?? formatPhone(referredBy.referrer.phone_number, phoneCountry)}
+                      </Link>
+                    </dd>
+                  </>
+                )}
+              </dl>
+              {customer.notes && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-1">Staff Notes</h3>
+                  <p className="whitespace-pre-line text-gray-700">{customer.notes}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white shadow rounded-xl p-8">
+              <h3 className="text-xl font-semibold mb-3">Recent Activity</h3>
+              {recentTransactions.length === 0 ? (
+                <p className="text-gray-500">No activity yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Store</TableHead>
+                      <TableHead>Amount ($)</TableHead>
+                      <TableHead>Points</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentTransactions.map(tx => (
+                      <TableRow key={tx.id}>
+                        <TableCell>{new Date(tx.created_at).toLocaleString()}</TableCell>
+                        <TableCell title={tx.note ?? undefined}>{describeTransaction(tx)}</TableCell>
+                        <TableCell>{storeName(tx.store_id)}</TableCell>
+                        <TableCell>{tx.amount}</TableCell>
+                        <TableCell>{tx.points_changed > 0 ? `+${tx.points_changed}` : tx.points_changed}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="bg-white shadow rounded-xl p-8">
+              <h3 className="text-xl font-semibold mb-3">Referrals</h3>
+              {referrals.length === 0 ? (
+                <p className="text-gray-500">
+                  No referrals yet. New customers can give code <span className="font-mono">{customer.referral_code}</span> when they sign up.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Friend</TableHead>
+                      <TableHead>Referred</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {referrals.map(referral => (
+                      <TableRow key={referral.id}>
+                        <TableCell>
+                          {referral.referee ? (
+                            <Link href={`/customers/${referral.referee.id}`} className="hover:underline">
+                              {referral.referee.name ?? formatPhone(referral.referee.phone_number, phoneCountry)}
+                            </Link>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell>{new Date(referral.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell>{describeReferral(referral)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <CustomerMerge customer={customer} suggestions={possibleDuplicates} />
+          </div>
+
+          {/* Right Column: Balance & Actions */}
+          <CustomerDetails customer={customer} />
+        </div>
+      </div>
+    </main>
+  )
+}
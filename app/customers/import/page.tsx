@@ -0,0 +1,433 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  importCustomers,
+  listCustomerImports,
+  listExistingPhoneNumbers,
+  type CustomerImport
+} from '@/lib/repositories'
+import { canManage } from '@/lib/auth'
+import { downloadCsv } from '@/lib/csv'
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  excludeExisting,
+  guessMapping,
+  headerRowIndex,
+  prepareImport,
+  problemReportCsv,
+  type ColumnMapping,
+  type ImportField,
+  type ImportPreview,
+  type ImportProblem
+} from '@/lib/customer-import'
+import { toDateInput } from '@/lib/dates'
+import { formatPhone } from '@/lib/phone'
+import { readSpreadsheet } from '@/lib/spreadsheet'
+import { errorCode } from '@/lib/supabase'
+import { tenantPhoneCountry } from '@/lib/tenant'
+import { AppHeader } from '@/components/app-header'
+import { StaffMenu } from '@/components/staff-menu'
+import { useTenant } from '@/components/tenant-provider'
+import { useStaff } from '@/hooks/use-staff'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+// Rows shown on screen; the downloadable report has them all
+const PREVIEW_ROWS = 20
+
+interface ImportOutcome {
+  created: number
+  points: number
+  problems: ImportProblem[]
+}
+
+const primaryButton =
+  'bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50'
+const secondaryButton =
+  'bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50'
+
+function importError(error: unknown): string {
+  const code = errorCode(error)
+  if (code === '42501') return 'Only managers can import customers.'
+  if (code === '54000') return `An import can have at most ${MAX_IMPORT_ROWS.toLocaleString()} rows. Split the file and import each part.`
+  if (code === '22023') return 'There are no customers to import.'
+  return 'Failed to import customers. Nothing was imported.'
+}
+
+export default function ImportCustomersPage() {
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const { role } = useStaff()
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<string[][]>([])
+  const [decimalComma, setDecimalComma] = useState(false)
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping([]))
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [outcome, setOutcome] = useState<ImportOutcome | null>(null)
+  const [imports, setImports] = useState<CustomerImport[]>([])
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const allowed = canManage(role)
+  const headerIndex = headerRowIndex(sheet)
+  const header = headerIndex === -1 ? [] : sheet[headerIndex]
+  const sampleRow = sheet.slice(headerIndex + 1).find(cells => cells.some(value => value.trim() !== '')) ?? []
+
+  useEffect(() => {
+    if (!allowed) return
+    listCustomerImports()
+      .then(setImports)
+      .catch(error => console.error('Error loading imports:', error))
+  }, [allowed])
+
+  const reset = () => {
+    setStep('upload')
+    setFileName('')
+    setSheet([])
+    setPreview(null)
+    setOutcome(null)
+    setError('')
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError('')
+    try {
+      const { rows, decimalComma } = await readSpreadsheet(file)
+      const index = headerRowIndex(rows)
+      const dataRows = rows.slice(index + 1).filter(cells => cells.some(value => value.trim() !== ''))
+      if (index === -1 || dataRows.length === 0) {
+        setError('The file has no rows to import. The first row should hold the column headings.')
+        return
+      }
+      if (dataRows.length > MAX_IMPORT_ROWS) {
+        setError(`The file has ${dataRows.length.toLocaleString()} rows; an import can have at most ${MAX_IMPORT_ROWS.toLocaleString()}. Split the file and import each part.`)
+        return
+      }
+      setFileName(file.name)
+      setSheet(rows)
+      setDecimalComma(decimalComma)
+      setMapping(guessMapping(rows[index]))
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      setError(error instanceof Error ? error.message : 'Failed to read the file')
+    }
+  }
+
+  const handlePreview = async () => {
+    if (mapping.phone_number === null) {
+      setError('Choose the column that holds phone numbers.')
+      return
+    }
+    setLoading(true)
+    try {
+      const checked = prepareImport(sheet, mapping, phoneCountry, toDateInput(new Date()), decimalComma)
+      const existing = await listExistingPhoneNumbers(checked.rows.map(row => row.phone_number))
+      setPreview(excludeExisting(checked, sheet, existing))
+      setError('')
+      setStep('preview')
+    } catch (error) {
+      console.error('Error checking import:', error)
+      setError('Failed to check the file against existing customers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+    setLoading(true)
+    try {
+      const results = await importCustomers(fileName, preview.rows)
+      const rowsBySource = new Map(preview.rows.map(row => [row.source_row, row]))
+      // Rows the database turned away, e.g. a customer added at the till since the preview
+      const skipped = results
+        .filter(result => result.skipped_reason)
+        .map(result => ({
+          sourceRow: result.source_row,
+          values: sheet[result.source_row - 1] ?? [],
+          reason: result.skipped_reason
+        }))
+      const created = results.filter(result => result.customer_id)
+      setOutcome({
+        created: created.length,
+        points: created.reduce((total, result) => total + (rowsBySource.get(result.source_row)?.points ?? 0), 0),
+        problems: [...preview.problems, ...skipped].sort((a, b) => a.sourceRow - b.sourceRow)
+      })
+      setError('')
+      setStep('done')
+      // The rows are in by now, so a failed refresh must not read as a failed import
+      listCustomerImports()
+        .then(setImports)
+        .catch(error => console.error('Error refreshing imports:', error))
+    } catch (error) {
+      console.error('Error importing customers:', error)
+      setError(importError(error))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const downloadReport = (problems: ImportProblem[]) => {
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    downloadCsv(`${baseName}-problems.csv`, problemReportCsv(header, problems))
+  }
+
+  const previewPoints = preview?.rows.reduce((total, row) => total + row.points, 0) ?? 0
+
+  const problemTable = (problems: ImportProblem[]) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">
+          {problems.length.toLocaleString()} row{problems.length === 1 ? '' : 's'} will not be imported
+        </h3>
+        <button className="px-3 py-1 bg-gray-200 rounded" onClick={() => downloadReport(problems)}>
+          Download problem report
+        </button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Phone</TableHead>
+            <TableHead>Problem</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {problems.slice(0, PREVIEW_ROWS).map(problem => (
+            <TableRow key={problem.sourceRow}>
+              <TableCell>{problem.sourceRow}</TableCell>
+              <TableCell>{mapping.phone_number === null ? '' : problem.values[mapping.phone_number]}</TableCell>
+              <TableCell>{problem.reason}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {problems.length > PREVIEW_ROWS && (
+        <p className="text-sm text-gray-500">
+          Showing the first {PREVIEW_ROWS}; the report lists every row with the original values.
+        </p>
+      )}
+    </div>
+  )
+
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4 space-y-8">
+        <div className="bg-white shadow rounded-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold">Import Customers</h2>
+            <Link href="/customers" className="text-sm font-semibold underline">Back to customers</Link>
+          </div>
+
+          {!allowed ? (
+            <p className="text-gray-600">Only managers can import customers.</p>
+          ) : (
+            <div className="space-y-6">
+              {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow">
+                  {error}
+                </div>
+              )}
+
+              {step === 'upload' && (
+                <div className="space-y-4">
+                  <p className="text-gray-600">
+                    Upload a .csv or .xlsx file with one customer per row and column headings in the first row.
+                    Each customer needs a phone number; name, email, birthday, member since date, points balance and
+                    marketing consent are optional. Balances are added as opening balances, and imported customers
+                    do not get the welcome bonus.
+                  </p>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    onChange={handleFile}
+                    className="block"
+                  />
+                </div>
+              )}
+
+              {step === 'map' && (
+                <div className="space-y-4">
+                  <p className="text-gray-600">
+                    Match the columns in <span className="font-semibold">{fileName}</span> to customer details.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Detail</TableHead>
+                        <TableHead>Column</TableHead>
+                        <TableHead>First row</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => {
+                        const column = mapping[field]
+                        return (
+                          <TableRow key={field}>
+                            <TableCell className="font-medium">
+                              {IMPORT_FIELDS[field].label}
+                              {IMPORT_FIELDS[field].required && <span className="text-red-600"> *</span>}
+                            </TableCell>
+                            <TableCell>
+                              <select
+                                value={column ?? ''}
+                                onChange={e => setMapping({
+                                  ...mapping,
+                                  [field]: e.target.value === '' ? null : Number(e.target.value)
+                                })}
+                                className="border rounded px-2 py-1"
+                              >
+                                <option value="">Don&apos;t import</option>
+                                {header.map((heading, index) => (
+                                  <option key={index} value={index}>{heading || `Column ${index + 1}`}</option>
+                                ))}
+                              </select>
+                            </TableCell>
+                            <TableCell className="text-gray-500">{column === null ? '' : sampleRow[column]}</TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                  <p className="text-sm text-gray-500">
+                    Phone numbers without a country code are read as local numbers. Dates can be written as
+                    YYYY-MM-DD or in the usual local day, month and year order.
+                  </p>
+                  <div className="flex gap-3">
+                    <button className={primaryButton} onClick={handlePreview} disabled={loading}>
+                      {loading ? 'Checking...' : 'Preview'}
+                    </button>
+                    <button className={secondaryButton} onClick={reset} disabled={loading}>
+                      Choose Another File
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'preview' && preview && (
+                <div className="space-y-6">
+                  <p>
+                    <span className="font-semibold">{preview.rows.length.toLocaleString()}</span> customer
+                    {preview.rows.length === 1 ? '' : 's'} ready to import with{' '}
+                    <span className="font-semibold">{previewPoints.toLocaleString()}</span> points in opening balances.
+                  </p>
+                  {preview.rows.length > 0 && (
+                    <div className="space-y-2">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Row</TableHead>
+                            <TableHead>Phone</TableHead>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Email</TableHead>
+                            <TableHead>Birthday</TableHead>
+                            <TableHead>Member Since</TableHead>
+                            <TableHead>Points</TableHead>
+                            <TableHead>Marketing</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {preview.rows.slice(0, PREVIEW_ROWS).map(row => (
+                            <TableRow key={row.source_row}>
+                              <TableCell>{row.source_row}</TableCell>
+                              <TableCell>{formatPhone(row.phone_number, phoneCountry)}</TableCell>
+                              <TableCell>{row.name ?? ''}</TableCell>
+                              <TableCell>{row.email ?? ''}</TableCell>
+                              <TableCell>{row.birthday ?? ''}</TableCell>
+                              <TableCell>{row.member_since ?? ''}</TableCell>
+                              <TableCell>{row.points.toLocaleString()}</TableCell>
+                              <TableCell>{row.marketing_consent ? 'Yes' : 'No'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {preview.rows.length > PREVIEW_ROWS && (
+                        <p className="text-sm text-gray-500">
+                          Showing the first {PREVIEW_ROWS} of {preview.rows.length.toLocaleString()}.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {preview.problems.length > 0 && problemTable(preview.problems)}
+                  <div className="flex gap-3">
+                    <button
+                      className={primaryButton}
+                      onClick={handleImport}
+                      disabled={loading || preview.rows.length === 0}
+                    >
+                      {loading
+                        ? 'Importing...'
+                        : `Import ${preview.rows.length.toLocaleString()} Customer${preview.rows.length === 1 ? '' : 's'}`}
+                    </button>
+                    <button className={secondaryButton} onClick={() => setStep('map')} disabled={loading}>
+                      Back
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'done' && outcome && (
+                <div className="space-y-6">
+                  <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded shadow">
+                    Imported {outcome.created.toLocaleString()} customer{outcome.created === 1 ? '' : 's'} with{' '}
+                    {outcome.points.toLocaleString()} points in opening balances.
+                  </div>
+                  {outcome.problems.length > 0 && problemTable(outcome.problems)}
+                  <button className={secondaryButton} onClick={reset}>
+                    Import Another File
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {allowed && imports.length > 0 && (
+          <div className="bg-white shadow rounded-xl p-8">
+            <h3 className="text-xl font-semibold mb-4">Recent Imports</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map(batch => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">{batch.file_name}</TableCell>
+                    <TableCell>{new Date(batch.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{batch.customers_created.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{batch.rows_skipped.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{batch.points_imported.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
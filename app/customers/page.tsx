@@ -0,0 +1,329 @@
+"use client"
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import {
+  listCustomers,
+  listTiers,
+  type Customer,
+  type CustomerSortColumn
+} from '@/lib/repositories'
+import { canManage } from '@/lib/auth'
+import { findTier, type Tier } from '@/lib/tiers'
+import { formatPhone } from '@/lib/phone'
+import { tenantPhoneCountry } from '@/lib/tenant'
+import { AppHeader } from '@/components/app-header'
+import { StaffMenu } from '@/components/staff-menu'
+import { useTenant } from '@/components/tenant-provider'
+import { useStaff } from '@/hooks/use-staff'
+import { Badge } from '@/components/ui/badge'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+const PAGE_SIZE = 25
+
+// URL values for the sortable columns, so links stay readable
+const SORT_COLUMNS: Record<string, CustomerSortColumn> = {
+  points: 'total_points',
+  joined: 'created_at',
+  last_visit: 'last_visit_at'
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// First, last and the pages around the current one; null marks a gap
+function pageNumbers(page: number, totalPages: number): (number | null)[] {
+  const pages: (number | null)[] = []
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+function CustomerDirectory() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const { role } = useStaff()
+
+  // Filters, sort and page live in the URL so they survive a refresh and can be shared
+  const page = Math.max(1, parseNumber(searchParams.get('page')) ?? 1)
+  const sortKey = searchParams.get('sort') ?? 'joined'
+  const sortColumn = SORT_COLUMNS[sortKey] ?? 'created_at'
+  const ascending = searchParams.get('dir') === 'asc'
+  const tierId = searchParams.get('tier') ?? ''
+  const minPoints = parseNumber(searchParams.get('min'))
+  const maxPoints = parseNumber(searchParams.get('max'))
+
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [count, setCount] = useState(0)
+  const [tiers, setTiers] = useState<Tier[]>([])
+  const [minInput, setMinInput] = useState(searchParams.get('min') ?? '')
+  const [maxInput, setMaxInput] = useState(searchParams.get('max') ?? '')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    listTiers()
+      .then(setTiers)
+      .catch(error => console.error('Error loading tiers:', error))
+  }, [])
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      setLoading(true)
+      try {
+        const result = await listCustomers(
+          { tierId: tierId || undefined, minPoints, maxPoints },
+          { column: sortColumn, ascending },
+          page,
+          PAGE_SIZE
+        )
+        setCustomers(result.customers)
+        setCount(result.count)
+        setError('')
+      } catch (error) {
+        console.error('Error loading customers:', error)
+        setError('Failed to load customers')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadCustomers()
+  }, [tierId, minPoints, maxPoints, sortColumn, ascending, page])
+
+  // Any change other than paging starts again from the first page
+  const hrefWith = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (!('page' in changes)) params.delete('page')
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null || value === '') params.delete(key)
+      else params.set(key, value)
+    })
+    const query = params.toString()
+    return query ? `${pathname}?${query}` : pathname
+  }
+
+  const navigate = (changes: Record<string, string | null>) => router.replace(hrefWith(changes))
+
+  // The profile links back to exactly this view of the directory
+  const profileHref = (customer: Customer) => {
+    const query = searchParams.toString()
+    const from = query ? `${pathname}?${query}` : pathname
+    return `/customers/${customer.id}?from=${encodeURIComponent(from)}`
+  }
+
+  const handleSort = (key: string) => {
+    // Clicking the active column flips the direction; a new column starts high to low
+    const dir = key === sortKey && !ascending ? 'asc' : null
+    navigate({ sort: key, dir })
+  }
+
+  const handleBalanceFilter = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({ min: minInput.trim(), max: maxInput.trim() })
+  }
+
+  const sortIndicator = (key: string) => key === sortKey ? (ascending ? ' ▲' : ' ▼') : ''
+
+  const totalPages = Math.ceil(count / PAGE_SIZE)
+
+  return (
+    <div className="bg-white shadow rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">Customers</h2>
+        <div className="flex gap-4">
+          {canManage(role) && (
+            <Link href="/customers/import" className="text-sm font-semibold underline">Import customers</Link>
+          )}
+          <Link href="/" className="text-sm font-semibold underline">Back to tracker</Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-4 mb-6 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-700">Tier</label>
+          <select
+            value={tierId}
+            onChange={e => navigate({ tier: e.target.value })}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">All tiers</option>
+            {tiers.map(tier => (
+              <option key={tier.id} value={tier.id}>{tier.name}</option>
+            ))}
+          </select>
+        </div>
+        <form onSubmit={handleBalanceFilter} className="flex gap-2 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700">Min Points</label>
+            <input
+              type="number"
+              value={minInput}
+              onChange={e => setMinInput(e.target.value)}
+              className="border rounded px-2 py-1 w-28"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700">Max Points</label>
+            <input
+              type="number"
+              value={maxInput}
+              onChange={e => setMaxInput(e.target.value)}
+              className="border rounded px-2 py-1 w-28"
+            />
+          </div>
+          <button type="submit" className="px-3 py-1 bg-gray-200 rounded">Apply</button>
+        </form>
+        <span className="ml-auto text-sm text-gray-600">{count} customer{count === 1 ? '' : 's'}</span>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-4">
+          {error}
+        </div>
+      )}
+
+      {customers.length === 0 ? (
+        <p className="text-gray-500">{loading ? 'Loading...' : 'No customers match these filters.'}</p>
+      ) : (
+        <Table className="mb-4">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Tier</TableHead>
+              <TableHead>
+                <button onClick={() => handleSort('points')} className="font-medium">
+                  Points{sortIndicator('points')}
+                </button>
+              </TableHead>
+              <TableHead>
+                <button onClick={() => handleSort('joined')} className="font-medium">
+                  Joined{sortIndicator('joined')}
+                </button>
+              </TableHead>
+              <TableHead>
+                <button onClick={() => handleSort('last_visit')} className="font-medium">
+                  Last Visit{sortIndicator('last_visit')}
+                </button>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {customers.map(customer => {
+              const tier = findTier(tiers, customer.tier_id)
+              return (
+                <TableRow
+                  key={customer.id}
+                  className="cursor-pointer"
+                  onClick={() => router.push(profileHref(customer))}
+                >
+                  <TableCell className="font-medium">
+                    <Link href={profileHref(customer)} onClick={e => e.stopPropagation()}>
+                      {customer.name ?? '—'}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{formatPhone(customer.phone_number, phoneCountry)}</TableCell>
+                  <TableCell>{tier ? <Badge variant="secondary">{tier.name}</Badge> : '—'}</TableCell>
+                  <TableCell>{customer.total_points}</TableCell>
+                  <TableCell>{new Date(customer.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {customer.last_visit_at ? new Date(customer.last_visit_at).toLocaleDateString() : 'Never'}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {totalPages > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href={hrefWith({ page: String(Math.max(1, page - 1)) })}
+                onClick={e => {
+                  e.preventDefault()
+                  if (page > 1) navigate({ page: String(page - 1) })
+                }}
+                aria-disabled={page === 1}
+              />
+            </PaginationItem>
+            {pageNumbers(page, totalPages).map((p, index) => (
+              <PaginationItem key={p ?? `gap-${index}`}>
+                {p === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    href={hrefWith({ page: String(p) })}
+                    isActive={p === page}
+                    onClick={e => {
+                      e.preventDefault()
+                      navigate({ page: String(p) })
+                    }}
+                  >
+                    {p}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href={hrefWith({ page: String(Math.min(totalPages, page + 1)) })}
+                onClick={e => {
+                  e.preventDefault()
+                  if (page < totalPages) navigate({ page: String(page + 1) })
+                }}
+                aria-disabled={page >= totalPages}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  )
+}
+
+export default function CustomersPage() {
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4">
+        {/* useSearchParams needs a Suspense boundary for static rendering */}
+        <Suspense>
+          <CustomerDirectory />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
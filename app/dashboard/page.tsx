@@ -0,0 +1,332 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  getActivitySummary,
+  getProgramSettings,
+  listDailyActivity,
+  listStores,
+  listTopCustomers,
+  listUpcomingBirthdays,
+  type ActivitySummary,
+  type DailyActivity,
+  type ProgramSettings,
+  type Store,
+  type TopCustomer,
+  type UpcomingBirthday
+} from '@/lib/repositories'
+import { addDays, parseDateInput, toDateInput } from '@/lib/dates'
+import { formatDollars } from '@/lib/money'
+import { formatPhone } from '@/lib/phone'
+import { tenantPhoneCountry } from '@/lib/tenant'
+import { AppHeader } from '@/components/app-header'
+import { CustomerActivityChart, PointsActivityChart } from '@/components/activity-charts'
+import { StaffMenu } from '@/components/staff-menu'
+import { useTenant } from '@/components/tenant-provider'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+const BIRTHDAY_WINDOWS = [7, 30, 90]
+
+// How many days the activity charts cover until the range is changed
+const DEFAULT_RANGE_DAYS = 30
+
+function daysAgo(days: number): string {
+  return addDays(toDateInput(new Date()), -days)
+}
+
+function daysUntil(date: string): number {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return Math.round((parseDateInput(date).getTime() - today.getTime()) / 86_400_000)
+}
+
+function describeBonus(points: number | null | undefined): string {
+  return points ? `${points} points` : 'Off'
+}
+
+export default function DashboardPage() {
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const [days, setDays] = useState(30)
+  const [birthdays, setBirthdays] = useState<UpcomingBirthday[]>([])
+  const [settings, setSettings] = useState<ProgramSettings | null>(null)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [from, setFrom] = useState(() => daysAgo(DEFAULT_RANGE_DAYS - 1))
+  const [to, setTo] = useState(() => daysAgo(0))
+  const [storeId, setStoreId] = useState('')
+  const [stores, setStores] = useState<Store[]>([])
+  const [summary, setSummary] = useState<ActivitySummary | null>(null)
+  const [daily, setDaily] = useState<DailyActivity[]>([])
+  const [topCustomers, setTopCustomers] = useState<TopCustomer[]>([])
+  const [activityError, setActivityError] = useState('')
+  const [activityLoading, setActivityLoading] = useState(false)
+
+  useEffect(() => {
+    getProgramSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error loading program settings:', error))
+    listStores()
+      .then(setStores)
+      .catch(error => console.error('Error loading stores:', error))
+  }, [])
+
+  // Every figure is aggregated in the database; only the totals come back
+  useEffect(() => {
+    if (!from || !to || from > to) {
+      setActivityError('Pick a start date on or before the end date')
+      return
+    }
+    const loadActivity = async () => {
+      setActivityLoading(true)
+      try {
+        const range = { from, to, storeId: storeId || undefined }
+        const [summaryData, dailyData, topData] = await Promise.all([
+          getActivitySummary(range),
+          listDailyActivity(range),
+          listTopCustomers(range)
+        ])
+        setSummary(summaryData)
+        setDaily(dailyData)
+        setTopCustomers(topData)
+        setActivityError('')
+      } catch (error) {
+        console.error('Error loading activity:', error)
+        setActivityError('Failed to load program activity')
+      } finally {
+        setActivityLoading(false)
+      }
+    }
+    loadActivity()
+  }, [from, to, storeId])
+
+  const stats = summary
+    ? [
+        { label: 'Points issued', value: summary.points_issued.toLocaleString() },
+        { label: 'Points redeemed', value: summary.points_redeemed.toLocaleString() },
+        {
+          label: 'Redemption rate',
+          value: summary.redemption_rate === null ? '—' : `${(summary.redemption_rate * 100).toFixed(1)}%`
+        },
+        {
+          label: 'Outstanding liability',
+          value: formatDollars(summary.outstanding_liability),
+          detail: `${summary.outstanding_points.toLocaleString()} points today`
+        },
+        { label: 'Active customers', value: summary.active_customers.toLocaleString() },
+        { label: 'New sign-ups', value: summary.new_customers.toLocaleString() }
+      ]
+    : []
+
+  useEffect(() => {
+    const loadBirthdays = async () => {
+      setLoading(true)
+      try {
+        setBirthdays(await listUpcomingBirthdays(days))
+        setError('')
+      } catch (error) {
+        console.error('Error loading birthdays:', error)
+        setError('Failed to load upcoming birthdays')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadBirthdays()
+  }, [days])
+
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4 space-y-8">
+        <div className="bg-white shadow rounded-xl p-8">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold">Program Activity</h2>
+            <div className="flex flex-wrap gap-4 items-end">
+              <div>
+                <label className="block text-xs font-medium text-gray-700">From</label>
+                <input
+                  type="date"
+                  value={from}
+                  max={to}
+                  onChange={e => setFrom(e.target.value)}
+                  className="border rounded px-2 py-1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700">To</label>
+                <input
+                  type="date"
+                  value={to}
+                  min={from}
+                  onChange={e => setTo(e.target.value)}
+                  className="border rounded px-2 py-1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700">Store</label>
+                <select
+                  value={storeId}
+                  onChange={e => setStoreId(e.target.value)}
+                  className="border rounded px-2 py-1"
+                >
+                  <option value="">All stores</option>
+                  {stores.map(store => (
+                    <option key={store.id} value={store.id}>{store.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {activityError && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-4">
+              {activityError}
+            </div>
+          )}
+
+          {!summary ? (
+            <p className="text-gray-500">{activityLoading ? 'Loading...' : 'No activity to show.'}</p>
+          ) : (
+            <div className={`space-y-8 ${activityLoading ? 'opacity-60' : ''}`}>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {stats.map(stat => (
+                  <div key={stat.label} className="rounded-lg border p-4">
+                    <p className="text-sm text-gray-600">{stat.label}</p>
+                    <p className="text-2xl font-bold">{stat.value}</p>
+                    {stat.detail && <p className="text-xs text-gray-500">{stat.detail}</p>}
+                  </div>
+                ))}
+              </div>
+              {storeId && (
+                <p className="text-xs text-gray-500">
+                  Sign-ups and the outstanding balance count customers whose home store this is.
+                </p>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-8">
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Points Issued vs Redeemed</h3>
+                  <PointsActivityChart data={daily} />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Customers</h3>
+                  <CustomerActivityChart data={daily} />
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Top Customers</h3>
+                {topCustomers.length === 0 ? (
+                  <p className="text-gray-500">No purchases in this range.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>Spent</TableHead>
+                        <TableHead>Points Earned</TableHead>
+                        <TableHead>Visits</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {topCustomers.map(customer => (
+                        <TableRow key={customer.customer_id}>
+                          <TableCell className="font-medium">
+                            <Link href={`/customers/${customer.customer_id}`} className="hover:underline">
+                              {customer.name ?? 'Unnamed customer'}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{formatPhone(customer.phone_number, phoneCountry)}</TableCell>
+                          <TableCell>{formatDollars(customer.amount_spent)}</TableCell>
+                          <TableCell>{customer.points_earned.toLocaleString()}</TableCell>
+                          <TableCell>{customer.visits}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold">Upcoming Birthdays</h2>
+            <select
+              value={days}
+              onChange={e => setDays(Number(e.target.value))}
+              className="border rounded px-2 py-1"
+            >
+              {BIRTHDAY_WINDOWS.map(window => (
+                <option key={window} value={window}>Next {window} days</option>
+              ))}
+            </select>
+          </div>
+          {settings && (
+            <p className="text-sm text-gray-600 mb-4">
+              Birthday bonus: {describeBonus(settings.birthday_bonus_points)} · Sign-up anniversary bonus: {describeBonus(settings.anniversary_bonus_points)}.
+              Bonuses are granted automatically each morning.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-4">
+              {error}
+            </div>
+          )}
+
+          {birthdays.length === 0 ? (
+            <p className="text-gray-500">{loading ? 'Loading...' : 'No birthdays coming up.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Birthday</TableHead>
+                  <TableHead>Turning</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {birthdays.map(birthday => {
+                  const until = daysUntil(birthday.next_birthday)
+                  return (
+                    <TableRow key={birthday.customer_id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/customers/${birthday.customer_id}`} className="hover:underline">
+                          {birthday.name ?? 'Unnamed customer'}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatPhone(birthday.phone_number, phoneCountry)}</TableCell>
+                      <TableCell>
+                        {parseDateInput(birthday.next_birthday).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        {until === 0 ? (
+                          <Badge className="ml-2">Today</Badge>
+                        ) : (
+                          <span className="ml-2 text-sm text-gray-500">in {until} day{until === 1 ? '' : 's'}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{birthday.turning}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,20 +1,30 @@
 import type { Metadata } from 'next'
 import './globals.css'
+import { TenantProvider } from '@/components/tenant-provider'
+import { DEFAULT_APP_NAME } from '@/lib/tenant'
+import { getCurrentTenant } from '@/lib/tenant-server'
 
-export const metadata: Metadata = {
-  title: 'v0 App',
-  description: 'Created with v0',
-  generator: 'v0.dev',
+export async function generateMetadata(): Promise<Metadata> {
+  const tenant = await getCurrentTenant()
+  const name = tenant?.name ?? DEFAULT_APP_NAME
+  return {
+    title: name,
+    description: `Loyalty points for ${name}`,
+    icons: tenant?.logo_url ? { icon: tenant.logo_url } : undefined,
+  }
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const tenant = await getCurrentTenant()
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <TenantProvider tenant={tenant}>{children}</TenantProvider>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,333 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  closeLiabilityPeriod,
+  getLiabilityReport,
+  listLiabilityPeriods,
+  type LiabilityPeriod,
+  type LiabilityReport
+} from '@/lib/repositories'
+import { canManage } from '@/lib/auth'
+import { downloadCsv, toCsv } from '@/lib/csv'
+import { addDays, endOfMonth, parseDateInput, toDateInput } from '@/lib/dates'
+import { formatDollars } from '@/lib/money'
+import { errorCode } from '@/lib/supabase'
+import { AppHeader } from '@/components/app-header'
+import { StaffMenu } from '@/components/staff-menu'
+import { useStaff } from '@/hooks/use-staff'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+
+// The roll-forward, top to bottom; closing = opening + issued - redeemed - expired + adjusted
+const ROLL_FORWARD: { key: keyof LiabilityReport; label: string }[] = [
+  { key: 'opening_points', label: 'Opening balance' },
+  { key: 'issued_points', label: 'Issued' },
+  { key: 'redeemed_points', label: 'Redeemed' },
+  { key: 'expired_points', label: 'Expired' },
+  { key: 'adjusted_points', label: 'Adjusted' },
+  { key: 'closing_points', label: 'Closing balance' }
+]
+
+const CSV_HEADER = [
+  'Period start',
+  'Period end',
+  'Opening points',
+  'Issued points',
+  'Redeemed points',
+  'Expired points',
+  'Adjusted points',
+  'Closing points',
+  'Point value',
+  'Opening liability',
+  'Closing liability',
+  'Closed at'
+]
+
+function formatDate(date: string): string {
+  return parseDateInput(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// The period after the last closed one, up to its month end; the previous
+// calendar month when nothing has been closed yet. Never runs into today.
+function nextPeriod(periods: LiabilityPeriod[]): { from: string; to: string } {
+  const today = new Date()
+  const yesterday = addDays(toDateInput(today), -1)
+  const from = periods.length > 0
+    ? addDays(periods[0].period_end, 1)
+    : toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1))
+  const to = endOfMonth(from) < yesterday ? endOfMonth(from) : yesterday
+  return { from, to }
+}
+
+export default function LiabilityPage() {
+  const { role } = useStaff()
+  const [periods, setPeriods] = useState<LiabilityPeriod[]>([])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [report, setReport] = useState<LiabilityReport | null>(null)
+  const [confirming, setConfirming] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const allowed = canManage(role)
+
+  useEffect(() => {
+    if (!allowed) return
+    listLiabilityPeriods()
+      .then(data => {
+        setPeriods(data)
+        const period = nextPeriod(data)
+        setFrom(period.from)
+        setTo(period.to)
+      })
+      .catch(error => {
+        console.error('Error loading liability periods:', error)
+        setError('Failed to load closed periods')
+      })
+  }, [allowed])
+
+  useEffect(() => {
+    if (!allowed || !from || !to) return
+    if (from > to) {
+      setReport(null)
+      setError('Pick a start date on or before the end date')
+      return
+    }
+    const loadReport = async () => {
+      setLoading(true)
+      try {
+        setReport(await getLiabilityReport(from, to))
+        setError('')
+      } catch (error) {
+        console.error('Error loading liability report:', error)
+        setError('Failed to load the liability report')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadReport()
+  }, [allowed, from, to])
+
+  const handleClose = async () => {
+    setLoading(true)
+    try {
+      const period = await closeLiabilityPeriod(from, to)
+      const data = [period, ...periods]
+      setPeriods(data)
+      setMessage(`Closed ${formatDate(period.period_start)} – ${formatDate(period.period_end)}.`)
+      setConfirming(false)
+      setError('')
+      const next = nextPeriod(data)
+      setFrom(next.from)
+      setTo(next.to)
+    } catch (error) {
+      console.error('Error closing period:', error)
+      setConfirming(false)
+      const code = errorCode(error)
+      if (code === '23514') {
+        setError(`Periods are closed in order; the next one starts ${formatDate(addDays(periods[0].period_end, 1))}.`)
+      } else if (code === '55000') {
+        setError('A period can only be closed once it is over.')
+      } else if (code === '42501') {
+        setError('Only managers can close a period.')
+      } else {
+        setError('Failed to close the period')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExport = () => {
+    const rows = [...periods].reverse().map(period => [
+      period.period_start,
+      period.period_end,
+      period.opening_points,
+      period.issued_points,
+      period.redeemed_points,
+      period.expired_points,
+      period.adjusted_points,
+      period.closing_points,
+      period.point_value,
+      period.opening_liability.toFixed(2),
+      period.closing_liability.toFixed(2),
+      period.closed_at
+    ])
+    downloadCsv(`points-liability-${toDateInput(new Date())}.csv`, toCsv(CSV_HEADER, rows))
+  }
+
+  const canClose = !!report && !!from && !!to && to < toDateInput(new Date())
+
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader>
+        <StaffMenu />
+      </AppHeader>
+      <div className="w-full max-w-6xl mx-auto px-4 space-y-8">
+        <div className="bg-white shadow rounded-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold">Points Liability</h2>
+            <Link href="/" className="text-sm font-semibold underline">Back to tracker</Link>
+          </div>
+
+          {!allowed ? (
+            <p className="text-gray-600">Only managers can view the liability report.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-4 mb-6 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Period Start</label>
+                  <input
+                    type="date"
+                    value={from}
+                    onChange={e => setFrom(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Period End</label>
+                  <input
+                    type="date"
+                    value={to}
+                    onChange={e => setTo(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-4">
+                  {error}
+                </div>
+              )}
+              {message && (
+                <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded shadow mb-4">
+                  {message}
+                </div>
+              )}
+
+              {!report ? (
+                <p className="text-gray-500">{loading ? 'Loading...' : 'Pick a period to preview.'}</p>
+              ) : (
+                <div className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead></TableHead>
+                        <TableHead className="text-right">Points</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ROLL_FORWARD.map(line => (
+                        <TableRow key={line.key}>
+                          <TableCell className={line.key.endsWith('ing_points') ? 'font-semibold' : ''}>{line.label}</TableCell>
+                          <TableCell className="text-right">{Number(report[line.key]).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-sm text-gray-600">
+                    Closing liability {formatDollars(report.closing_liability)} at {formatDollars(report.point_value)} a point
+                    (opening {formatDollars(report.opening_liability)}). Figures for an open period change as the ledger does;
+                    closing the period stores them for good.
+                  </p>
+
+                  {confirming ? (
+                    <div className="flex items-center gap-3">
+                      <span>Close {formatDate(from)} – {formatDate(to)}? This cannot be undone.</span>
+                      <button
+                        className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+                        onClick={handleClose}
+                        disabled={loading}
+                      >
+                        {loading ? 'Closing...' : 'Close Period'}
+                      </button>
+                      <button
+                        className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+                        onClick={() => setConfirming(false)}
+                        disabled={loading}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50"
+                      onClick={() => {
+                        setMessage('')
+                        setConfirming(true)
+                      }}
+                      disabled={!canClose || loading}
+                    >
+                      Close Period
+                    </button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {allowed && (
+          <div className="bg-white shadow rounded-xl p-8">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-semibold">Closed Periods</h3>
+              <button
+                className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                onClick={handleExport}
+                disabled={periods.length === 0}
+              >
+                Export CSV
+              </button>
+            </div>
+            {periods.length === 0 ? (
+              <p className="text-gray-500">No periods have been closed yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Opening</TableHead>
+                    <TableHead className="text-right">Issued</TableHead>
+                    <TableHead className="text-right">Redeemed</TableHead>
+                    <TableHead className="text-right">Expired</TableHead>
+                    <TableHead className="text-right">Adjusted</TableHead>
+                    <TableHead className="text-right">Closing</TableHead>
+                    <TableHead className="text-right">Liability</TableHead>
+                    <TableHead>Closed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periods.map(period => (
+                    <TableRow key={period.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(period.period_start)} – {formatDate(period.period_end)}
+                      </TableCell>
+                      <TableCell className="text-right">{period.opening_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{period.issued_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{period.redeemed_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{period.expired_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{period.adjusted_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{period.closing_points.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatDollars(period.closing_liability)}</TableCell>
+                      <TableCell>{new Date(period.closed_at).toLocaleDateString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import { safeNextPath } from '@/lib/auth'
+import { AppHeader } from '@/components/app-header'
+
+// Messages for the error codes the auth callback and middleware redirect with
+const LOGIN_ERRORS: Record<string, string> = {
+  link: 'That sign-in link is invalid or has expired.',
+  tenant: 'Your account belongs to a different business. Sign in with an account for this one.'
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = safeNextPath(searchParams.get('next'))
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState(LOGIN_ERRORS[searchParams.get('error') ?? ''] ?? '')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim() || !password) {
+      setError('Email and password are required')
+      return
+    }
+    setLoading(true)
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+      if (error) throw error
+      router.replace(next)
+      router.refresh()
+    } catch (error) {
+      console.error('Sign-in error:', error)
+      setError('Invalid email or password')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      setError('Enter your email to receive a sign-in link')
+      return
+    }
+    setLoading(true)
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          // Staff accounts are created by an admin, never on first sign-in
+          shouldCreateUser: false,
+          emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`
+        }
+      })
+      if (error) throw error
+      setError('')
+      setMessage('Check your email for a sign-in link.')
+    } catch (error) {
+      console.error('Magic link error:', error)
+      setError('Failed to send sign-in link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md bg-white shadow rounded-xl p-8">
+      <h2 className="text-2xl font-bold mb-6">Staff Sign In</h2>
+      <form onSubmit={handlePasswordLogin} className="space-y-6">
+        <div>
+          <label className="block text-base font-semibold mb-1">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-black"
+            placeholder="you@example.com"
+            autoComplete="email"
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label className="block text-base font-semibold mb-1">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-black"
+            autoComplete="current-password"
+            disabled={loading}
+          />
+        </div>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded shadow">
+            {message}
+          </div>
+        )}
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+            disabled={loading}
+          >
+            {loading ? 'Signing in...' : 'Sign In'}
+          </button>
+          <button
+            type="button"
+            className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+            onClick={handleMagicLink}
+            disabled={loading}
+          >
+            Email me a link
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen bg-[#f7fcfa] font-sans">
+      <AppHeader />
+      <div className="flex justify-center w-full px-4">
+        {/* useSearchParams needs a Suspense boundary for static rendering */}
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
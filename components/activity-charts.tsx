@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { parseDateInput } from "@/lib/dates"
+import type { DailyActivity } from "@/lib/repositories"
+
+const pointsConfig = {
+  points_issued: { label: "Issued", color: "hsl(var(--chart-1))" },
+  points_redeemed: { label: "Redeemed", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const customersConfig = {
+  active_customers: { label: "Active customers", color: "hsl(var(--chart-3))" },
+  new_customers: { label: "New sign-ups", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+function formatDay(day: string): string {
+  return parseDateInput(day).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+// Points issued against points redeemed, one pair of bars per day
+export function PointsActivityChart({ data }: { data: DailyActivity[] }) {
+  return (
+    <ChartContainer config={pointsConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={data} accessibilityLayer>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis tickLine={false} axisLine={false} width={48} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="points_issued" fill="var(--color-points_issued)" radius={2} />
+        <Bar dataKey="points_redeemed" fill="var(--color-points_redeemed)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+// Customers who bought or redeemed each day, and customers who signed up
+export function CustomerActivityChart({ data }: { data: DailyActivity[] }) {
+  return (
+    <ChartContainer config={customersConfig} className="aspect-auto h-64 w-full">
+      <LineChart data={data} accessibilityLayer>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="active_customers" type="monotone" stroke="var(--color-active_customers)" strokeWidth={2} dot={false} />
+        <Line dataKey="new_customers" type="monotone" stroke="var(--color-new_customers)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { useTenant } from "@/components/tenant-provider"
+import { DEFAULT_APP_NAME } from "@/lib/tenant"
+
+// Black page header branded with the current tenant's logo and name; children render after the title
+export function AppHeader({ children }: { children?: React.ReactNode }) {
+  const tenant = useTenant()
+
+  return (
+    <header className="w-full bg-black py-4 px-8 flex items-center mb-10">
+      {tenant?.logo_url && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={tenant.logo_url} alt="" className="h-8 w-8 rounded mr-3 object-contain bg-white" />
+      )}
+      <h1 className="text-2xl font-bold text-white">{tenant?.name ?? DEFAULT_APP_NAME}</h1>
+      {children}
+    </header>
+  )
+}
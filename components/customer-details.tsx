@@ -0,0 +1,725 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { useRouter } from "next/navigation"
+import {
+  adjustPoints,
+  earnPoints,
+  getCustomer,
+  listActiveEarnRules,
+  listActiveRewards,
+  listAdjustmentReasons,
+  listOpenPointLots,
+  listReversedAmounts,
+  listStores,
+  listTiers,
+  listTransactions,
+  redeemPoints,
+  reverseTransaction,
+  type AdjustmentReason,
+  type Customer,
+  type Store,
+  type Transaction
+} from "@/lib/repositories"
+import { describeRule, isRuleActive, type EarnRule } from "@/lib/earn-rules"
+import { canRedeem, describeReward, isRewardAvailable, pointsToDollars, type Reward } from "@/lib/rewards"
+import { findTier, type Tier } from "@/lib/tiers"
+import { getNextExpiry, type PointLot } from "@/lib/point-lots"
+import { canManage } from "@/lib/auth"
+import { errorCode } from "@/lib/supabase"
+import { formatPhone } from "@/lib/phone"
+import { tenantPhoneCountry } from "@/lib/tenant"
+import { useStaff } from "@/hooks/use-staff"
+import { useTenant } from "@/components/tenant-provider"
+import { CustomerEditForm } from "@/components/customer-edit-form"
+import { Badge } from "@/components/ui/badge"
+
+interface CustomerDetailsProps {
+  customer: Customer
+  // Called with the re-read customer after points are earned, redeemed, adjusted or reversed
+  onCustomerChange?: (customer: Customer) => void
+  // Rendered next to the title, e.g. a link to the full profile
+  actions?: React.ReactNode
+}
+
+// Balance, tier and the point actions for one customer, shared by the
+// tracker and the customer profile page
+export function CustomerDetails({ customer, onCustomerChange, actions }: CustomerDetailsProps) {
+  const router = useRouter()
+  const [currentCustomer, setCurrentCustomer] = useState(customer)
+  const [purchaseAmount, setPurchaseAmount] = useState("")
+  const [purchaseCategory, setPurchaseCategory] = useState("")
+  const [earnRules, setEarnRules] = useState<EarnRule[]>([])
+  const [rewards, setRewards] = useState<Reward[]>([])
+  const [tiers, setTiers] = useState<Tier[]>([])
+  const [adjustmentReasons, setAdjustmentReasons] = useState<AdjustmentReason[]>([])
+  const [showEditForm, setShowEditForm] = useState(false)
+  const [showAdjustForm, setShowAdjustForm] = useState(false)
+  const [adjustment, setAdjustment] = useState({ points: "", reasonCode: "", note: "" })
+  const [error, setError] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  // Dollars already voided or refunded against each earn transaction
+  const [reversedAmounts, setReversedAmounts] = useState<Record<string, number>>({})
+  const [pointLots, setPointLots] = useState<PointLot[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [historyPage, setHistoryPage] = useState(1)
+  const [historyPageSize] = useState(10)
+  const [historyStartDate, setHistoryStartDate] = useState<string>("")
+  const [historyEndDate, setHistoryEndDate] = useState<string>("")
+  const [historyStoreId, setHistoryStoreId] = useState<string>("")
+  const [stores, setStores] = useState<Store[]>([])
+  const [historyError, setHistoryError] = useState("")
+  const [refundTarget, setRefundTarget] = useState<string | null>(null)
+  const [refundAmount, setRefundAmount] = useState("")
+  const modalRef = useRef<HTMLDivElement>(null)
+  const { role: staffRole } = useStaff()
+  const phoneCountry = tenantPhoneCountry(useTenant())
+
+  // Load earn rules, tiers and the redemption catalog on initial render
+  useEffect(() => {
+    loadEarnRules()
+    loadRewards()
+    loadTiers()
+    loadAdjustmentReasons()
+    loadStores()
+  }, [])
+
+  // A new customer, or a fresh copy after the server re-rendered
+  useEffect(() => {
+    setCurrentCustomer(customer)
+  }, [customer])
+
+  useEffect(() => {
+    loadTransactions(currentCustomer.id)
+    loadPointLots(currentCustomer.id)
+  }, [currentCustomer])
+
+  // Keep the parent and any server-rendered view of this customer in step
+  const updateCustomer = (data: Customer) => {
+    setCurrentCustomer(data)
+    onCustomerChange?.(data)
+    router.refresh()
+  }
+
+  const loadEarnRules = async () => {
+    try {
+      setEarnRules(await listActiveEarnRules())
+    } catch (error) {
+      console.error("Error loading earn rules:", error)
+    }
+  }
+
+  const loadRewards = async () => {
+    try {
+      setRewards(await listActiveRewards())
+    } catch (error) {
+      console.error("Error loading rewards:", error)
+    }
+  }
+
+  const loadTiers = async () => {
+    try {
+      setTiers(await listTiers())
+    } catch (error) {
+      console.error("Error loading tiers:", error)
+    }
+  }
+
+  const loadAdjustmentReasons = async () => {
+    try {
+      setAdjustmentReasons(await listAdjustmentReasons())
+    } catch (error) {
+      console.error("Error loading adjustment reasons:", error)
+    }
+  }
+
+  const loadStores = async () => {
+    try {
+      setStores(await listStores())
+    } catch (error) {
+      console.error("Error loading stores:", error)
+    }
+  }
+
+  const loadTransactions = async (customerId: string) => {
+    try {
+      const [data, reversed] = await Promise.all([
+        listTransactions(customerId, {
+          startDate: historyStartDate,
+          endDate: historyEndDate,
+          storeId: historyStoreId
+        }),
+        listReversedAmounts(customerId)
+      ])
+      setTransactions(data)
+      setReversedAmounts(reversed)
+    } catch (error) {
+      console.error("Error loading transactions:", error)
+    }
+  }
+
+  const loadPointLots = async (customerId: string) => {
+    try {
+      setPointLots(await listOpenPointLots(customerId))
+    } catch (error) {
+      console.error("Error loading point lots:", error)
+    }
+  }
+
+  // Reload transactions when date range or page changes
+  useEffect(() => {
+    if (showHistory) {
+      loadTransactions(currentCustomer.id)
+    }
+    setHistoryPage(1)
+  }, [historyStartDate, historyEndDate, historyStoreId, currentCustomer, showHistory])
+
+  // Modal close on outside click
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        setShowHistory(false)
+      }
+    }
+    if (showHistory) {
+      document.addEventListener("mousedown", handleClickOutside)
+    } else {
+      document.removeEventListener("mousedown", handleClickOutside)
+    }
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside)
+    }
+  }, [showHistory])
+
+  const handleAddPoints = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(purchaseAmount)
+    if (!(amount > 0)) {
+      setError("Please enter a valid purchase amount")
+      return
+    }
+    setLoading(true)
+    try {
+      await earnPoints(currentCustomer.id, amount, purchaseCategory || null)
+      // Re-read the customer: the purchase may also have changed their tier
+      const data = await getCustomer(currentCustomer.id)
+      updateCustomer(data)
+      setPurchaseAmount("")
+      setPurchaseCategory("")
+      setError("")
+      // Reload transactions
+      loadTransactions(currentCustomer.id)
+    } catch (error) {
+      if (errorCode(error) === "23514") {
+        setError("This purchase does not earn any points")
+      } else {
+        setError("Failed to add points")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRedeem = async (reward: Reward) => {
+    if (!canRedeem(reward, currentCustomer.total_points)) {
+      setError("Not enough points for this redemption.")
+      return
+    }
+    setLoading(true)
+    try {
+      // The server validates the reward and re-checks the balance under a row lock
+      const newBalance = await redeemPoints(currentCustomer.id, reward.id)
+      const data = { ...currentCustomer, total_points: newBalance }
+      updateCustomer(data)
+      setError("")
+      // Reload transactions
+      loadTransactions(currentCustomer.id)
+    } catch (error) {
+      const code = errorCode(error)
+      if (code === "23514") {
+        setError("Not enough points for this redemption.")
+      } else if (code === "22023") {
+        setError("This reward is no longer available.")
+        loadRewards()
+      } else {
+        setError("Failed to redeem points")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const activeEarnRules = earnRules.filter(rule => isRuleActive(rule, new Date()))
+  const earnCategories = Array.from(new Set(activeEarnRules.map(rule => rule.category).filter((c): c is string => !!c)))
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const points = Number(adjustment.points)
+    if (!Number.isInteger(points) || points === 0) {
+      setError("Adjustment must be a whole, non-zero number of points")
+      return
+    }
+    if (!adjustment.reasonCode) {
+      setError("Please choose a reason for the adjustment")
+      return
+    }
+    setLoading(true)
+    try {
+      const newBalance = await adjustPoints(currentCustomer.id, points, adjustment.reasonCode, adjustment.note)
+      const data = { ...currentCustomer, total_points: newBalance }
+      updateCustomer(data)
+      setAdjustment({ points: "", reasonCode: "", note: "" })
+      setShowAdjustForm(false)
+      setError("")
+    } catch (error) {
+      const code = errorCode(error)
+      if (code === "42501") {
+        setError("Only managers can adjust points.")
+      } else if (code === "23514") {
+        setError("This adjustment would leave a negative balance.")
+      } else {
+        setError("Failed to adjust points")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReverse = async (tx: Transaction, amount?: number) => {
+    if (amount === undefined && !window.confirm(`Void this $${tx.amount} purchase and remove ${tx.points_changed} points?`)) {
+      return
+    }
+    if (amount !== undefined && !(amount > 0)) {
+      setHistoryError("Please enter a valid refund amount")
+      return
+    }
+    setLoading(true)
+    try {
+      await reverseTransaction(tx.id, amount)
+      // Re-read the customer: the reversal may also have changed their tier
+      const data = await getCustomer(currentCustomer.id)
+      updateCustomer(data)
+      setRefundTarget(null)
+      setRefundAmount("")
+      setHistoryError("")
+    } catch (error) {
+      const code = errorCode(error)
+      if (code === "23505") {
+        setHistoryError("This purchase has already been reversed.")
+      } else if (code === "22023") {
+        setHistoryError("Refund amount exceeds what is left to refund on this purchase.")
+      } else if (code === "23514") {
+        setHistoryError("Not enough points left to claw back for this reversal.")
+      } else {
+        setHistoryError("Failed to reverse transaction")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const storeName = (id: string | null) =>
+    stores.find(store => store.id === id)?.name ?? "—"
+
+  const reasonLabel = (code: string | null) =>
+    adjustmentReasons.find(reason => reason.code === code)?.label ?? code
+
+  const currentTier = findTier(tiers, currentCustomer.tier_id)
+  const nextExpiry = getNextExpiry(pointLots, new Date())
+
+  const availableRewards = rewards.filter(reward => isRewardAvailable(reward, new Date()))
+
+  const formatPointsToDollars = (points: number) => {
+    return pointsToDollars(points, availableRewards).toFixed(2)
+  }
+
+  // Pagination logic
+  const paginatedTransactions = transactions.slice((historyPage - 1) * historyPageSize, historyPage * historyPageSize)
+  const totalPages = Math.ceil(transactions.length / historyPageSize)
+
+  return (
+    <div className="w-full max-w-2xl bg-white shadow rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">Customer Details</h2>
+        <div className="flex items-center gap-3">
+          {currentTier && (
+            <Badge
+              variant={currentTier.earn_multiplier > 1 ? "default" : "secondary"}
+              title={currentCustomer.tier_achieved_at ? `Since ${new Date(currentCustomer.tier_achieved_at).toLocaleDateString()}` : undefined}
+            >
+              {currentTier.name}
+              {currentTier.earn_multiplier > 1 && ` · ${currentTier.earn_multiplier}x points`}
+            </Badge>
+          )}
+          {actions}
+        </div>
+      </div>
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow mb-6">
+          {error}
+        </div>
+      )}
+      <div className="mb-6 space-y-1">
+        {showEditForm ? (
+          <div className="mb-4">
+            <CustomerEditForm
+              customer={currentCustomer}
+              onSaved={data => {
+                updateCustomer(data)
+                setShowEditForm(false)
+              }}
+              onCancel={() => setShowEditForm(false)}
+            />
+          </div>
+        ) : (
+          <>
+            <p className="text-lg">
+              <span className="font-semibold">Phone:</span> {formatPhone(currentCustomer.phone_number, phoneCountry)}
+              <button className="ml-3 text-sm font-semibold underline" onClick={() => setShowEditForm(true)}>
+                Edit
+              </button>
+            </p>
+            {currentCustomer.name && <p className="text-lg"><span className="font-semibold">Name:</span> {currentCustomer.name}</p>}
+          </>
+        )}
+        <p className="text-xl font-bold mt-2">Points: {currentCustomer.total_points}</p>
+        <p className="text-lg text-gray-600">Available for Redemption: ${formatPointsToDollars(currentCustomer.total_points)}</p>
+        {nextExpiry && (
+          <p className="text-sm text-amber-700">
+            {nextExpiry.points} points expiring on {nextExpiry.date.toLocaleDateString()}
+          </p>
+        )}
+      </div>
+
+      {/* Add Points Form */}
+      <div className="mb-8">
+        <h3 className="text-xl font-semibold mb-3">Add Points</h3>
+        <form onSubmit={handleAddPoints} className="space-y-4">
+          <div>
+            <label className="block text-base font-semibold mb-1">Purchase Amount ($)</label>
+            <input
+              type="number"
+              value={purchaseAmount}
+              onChange={(e) => setPurchaseAmount(e.target.value)}
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              min="0"
+              step="0.01"
+              placeholder="Enter purchase amount"
+              disabled={loading}
+            />
+            {activeEarnRules.length === 0 ? (
+              <p className="text-sm text-gray-500 mt-1">Earn 1 point per $1 spent</p>
+            ) : (
+              <ul className="text-sm text-gray-500 mt-1">
+                {activeEarnRules.map(rule => (
+                  <li key={rule.id}>{describeRule(rule)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {earnCategories.length > 0 && (
+            <div>
+              <label className="block text-base font-semibold mb-1">Category (Optional)</label>
+              <select
+                value={purchaseCategory}
+                onChange={(e) => setPurchaseCategory(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={loading}
+              >
+                <option value="">No category</option>
+                {earnCategories.map(category => (
+                  <option key={category} value={category} className="capitalize">{category}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <button
+            type="submit"
+            className="w-full bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+            disabled={loading}
+          >
+            {loading ? "Adding Points..." : "Add Points"}
+          </button>
+        </form>
+      </div>
+
+      {/* Redemption Options */}
+      {availableRewards.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-3">Redeem Points</h3>
+          <div className="grid grid-cols-2 gap-4">
+            {availableRewards.map(reward => (
+              <button
+                key={reward.id}
+                onClick={() => handleRedeem(reward)}
+                className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50"
+                disabled={loading || !canRedeem(reward, currentCustomer.total_points)}
+                title={reward.name}
+              >
+                {loading ? "Processing..." : (
+                  <>
+                    <span className="block">{describeReward(reward)}</span>
+                    <span className="block text-xs font-normal">{reward.points_cost} points</span>
+                  </>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Manual Adjustment (managers only) */}
+      {canManage(staffRole) && (
+        <div className="mb-8">
+          {showAdjustForm ? (
+            <>
+              <h3 className="text-xl font-semibold mb-3">Adjust Points</h3>
+              <form onSubmit={handleAdjust} className="space-y-4">
+                <div>
+                  <label className="block text-base font-semibold mb-1">Points (+/-)</label>
+                  <input
+                    type="number"
+                    value={adjustment.points}
+                    onChange={(e) => setAdjustment({ ...adjustment, points: e.target.value })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-black"
+                    step="1"
+                    placeholder="e.g. 50 or -50"
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-base font-semibold mb-1">Reason</label>
+                  <select
+                    value={adjustment.reasonCode}
+                    onChange={(e) => setAdjustment({ ...adjustment, reasonCode: e.target.value })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-black"
+                    disabled={loading}
+                  >
+                    <option value="">Select a reason</option>
+                    {adjustmentReasons.map(reason => (
+                      <option key={reason.code} value={reason.code}>{reason.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-base font-semibold mb-1">Note (Optional)</label>
+                  <textarea
+                    value={adjustment.note}
+                    onChange={(e) => setAdjustment({ ...adjustment, note: e.target.value })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-black"
+                    rows={2}
+                    placeholder="Details for the audit trail"
+                    disabled={loading}
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+                    disabled={loading}
+                  >
+                    {loading ? "Saving..." : "Save Adjustment"}
+                  </button>
+                  <button
+                    type="button"
+                    className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+                    onClick={() => setShowAdjustForm(false)}
+                    disabled={loading}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </>
+          ) : (
+            <button
+              className="bg-white border border-black text-black font-semibold py-2 px-4 rounded-lg shadow hover:bg-gray-100"
+              onClick={() => setShowAdjustForm(true)}
+            >
+              Adjust points
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Toggle History Button */}
+      <button
+        className="mb-4 mt-8 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg"
+        onClick={() => {
+          setHistoryError("")
+          setShowHistory(true)
+        }}
+      >
+        Show History
+      </button>
+
+      {/* Transaction History Modal */}
+      {showHistory && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+          <div ref={modalRef} className="bg-white rounded-xl shadow-lg p-6 w-full max-w-2xl relative">
+            <button
+              className="absolute top-2 right-2 text-gray-500 hover:text-gray-700 text-2xl"
+              onClick={() => setShowHistory(false)}
+            >
+              &times;
+            </button>
+            <h3 className="text-xl font-semibold mb-3">History</h3>
+            {historyError && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">
+                {historyError}
+              </div>
+            )}
+            <div className="flex gap-4 mb-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700">Start Date</label>
+                <input
+                  type="date"
+                  value={historyStartDate}
+                  onChange={e => setHistoryStartDate(e.target.value)}
+                  className="border rounded px-2 py-1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700">End Date</label>
+                <input
+                  type="date"
+                  value={historyEndDate}
+                  onChange={e => setHistoryEndDate(e.target.value)}
+                  className="border rounded px-2 py-1"
+                />
+              </div>
+              {stores.length > 1 && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Store</label>
+                  <select
+                    value={historyStoreId}
+                    onChange={e => setHistoryStoreId(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    <option value="">All stores</option>
+                    {stores.map(store => (
+                      <option key={store.id} value={store.id}>{store.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            {paginatedTransactions.length === 0 ? (
+              <p className="text-gray-500">No history for this range.</p>
+            ) : (
+              <table className="min-w-full text-left text-sm mb-4">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1">Date</th>
+                    <th className="px-2 py-1">Type</th>
+                    <th className="px-2 py-1">Store</th>
+                    <th className="px-2 py-1">Amount ($)</th>
+                    <th className="px-2 py-1">Points</th>
+                    <th className="px-2 py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paginatedTransactions.map(tx => (
+                    <tr key={tx.id} className={tx.type === "adjust" ? "bg-amber-50" : undefined}>
+                      <td className="px-2 py-1">{new Date(tx.created_at).toLocaleString()}</td>
+                      {tx.type === "adjust" ? (
+                        <td className="px-2 py-1" title={tx.note ?? undefined}>
+                          <span className="font-semibold text-amber-800">Adjustment</span>
+                          <span className="block text-xs text-gray-600">{reasonLabel(tx.reason_code)}</span>
+                          {tx.note && <span className="block text-xs text-gray-500 italic">{tx.note}</span>}
+                        </td>
+                      ) : (
+                        <td className="px-2 py-1 capitalize">{tx.type}</td>
+                      )}
+                      <td className="px-2 py-1">{storeName(tx.store_id)}</td>
+                      <td className="px-2 py-1">{tx.amount}</td>
+                      <td className="px-2 py-1">{tx.points_changed > 0 ? `+${tx.points_changed}` : tx.points_changed}</td>
+                      <td className="px-2 py-1 text-right whitespace-nowrap">
+                        {tx.type === "add" && (reversedAmounts[tx.id] ?? 0) >= Number(tx.amount) && (
+                          <span className="text-gray-500">Reversed</span>
+                        )}
+                        {canManage(staffRole) && tx.type === "add" && (reversedAmounts[tx.id] ?? 0) < Number(tx.amount) && (
+                          refundTarget === tx.id ? (
+                            <span className="inline-flex items-center gap-1">
+                              <input
+                                type="number"
+                                value={refundAmount}
+                                onChange={e => setRefundAmount(e.target.value)}
+                                className="border rounded px-2 py-1 w-20"
+                                min="0"
+                                step="0.01"
+                                max={Number(tx.amount) - (reversedAmounts[tx.id] ?? 0)}
+                                placeholder="$"
+                                disabled={loading}
+                              />
+                              <button
+                                className="px-2 py-1 bg-black text-white rounded disabled:opacity-50"
+                                onClick={() => handleReverse(tx, Number(refundAmount))}
+                                disabled={loading}
+                              >
+                                Refund
+                              </button>
+                              <button
+                                className="px-2 py-1 bg-gray-200 rounded"
+                                onClick={() => setRefundTarget(null)}
+                                disabled={loading}
+                              >
+                                Cancel
+                              </button>
+                            </span>
+                          ) : (
+                            <span className="inline-flex gap-1">
+                              {!reversedAmounts[tx.id] && (
+                                <button
+                                  className="px-2 py-1 bg-gray-200 rounded disabled:opacity-50"
+                                  onClick={() => handleReverse(tx)}
+                                  disabled={loading}
+                                >
+                                  Void
+                                </button>
+                              )}
+                              <button
+                                className="px-2 py-1 bg-gray-200 rounded disabled:opacity-50"
+                                onClick={() => {
+                                  setRefundTarget(tx.id)
+                                  setRefundAmount("")
+                                  setHistoryError("")
+                                }}
+                                disabled={loading}
+                              >
+                                Refund
+                              </button>
+                            </span>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {/* Pagination Controls */}
+            <div className="flex justify-between items-center">
+              <button
+                className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                onClick={() => setHistoryPage(p => Math.max(1, p - 1))}
+                disabled={historyPage === 1}
+              >
+                Previous
+              </button>
+              <span>Page {historyPage} of {totalPages || 1}</span>
+              <button
+                className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                onClick={() => setHistoryPage(p => Math.min(totalPages, p + 1))}
+                disabled={historyPage === totalPages || totalPages === 0}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
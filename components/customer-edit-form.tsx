@@ -0,0 +1,165 @@
+"use client"
+
+import * as React from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  CustomerProfileFields,
+  customerProfileSchema,
+  refineCustomerProfile,
+} from "@/components/customer-profile-fields"
+import { useTenant } from "@/components/tenant-provider"
+import { updateCustomer, type Customer } from "@/lib/repositories"
+import type { ConsentSource, ContactChannel } from "@/lib/messaging"
+import { formatPhone, normalizePhone, type PhoneCountry } from "@/lib/phone"
+import { errorCode } from "@/lib/supabase"
+import { tenantPhoneCountry } from "@/lib/tenant"
+
+// Phone numbers are typed in any format and stored as E.164
+function customerSchema(phoneCountry: PhoneCountry) {
+  return customerProfileSchema
+    .extend({
+      name: z.string().trim().max(100, "Name must be 100 characters or fewer"),
+      phoneNumber: z
+        .string()
+        .trim()
+        .min(1, "Phone number is required")
+        .refine(value => normalizePhone(value, phoneCountry) !== null, "Enter a valid phone number"),
+      notes: z.string().trim().max(1000, "Notes must be 1000 characters or fewer"),
+    })
+    .superRefine(refineCustomerProfile)
+}
+
+type CustomerFormValues = z.infer<ReturnType<typeof customerSchema>>
+
+interface CustomerEditFormProps {
+  customer: Customer
+  onSaved: (customer: Customer) => void
+  onCancel: () => void
+}
+
+// Correct a customer's details and record marketing consent; changes are audit logged
+export function CustomerEditForm({ customer, onSaved, onCancel }: CustomerEditFormProps) {
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const [error, setError] = React.useState("")
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerSchema(phoneCountry)),
+    defaultValues: {
+      name: customer.name ?? "",
+      phoneNumber: formatPhone(customer.phone_number, phoneCountry),
+      email: customer.email ?? "",
+      birthday: customer.birthday ?? "",
+      preferredContact: (customer.preferred_contact ?? "") as ContactChannel | "",
+      notes: customer.notes ?? "",
+      marketingConsent: customer.marketing_consent,
+      marketingConsentSource: (customer.marketing_consent_source ?? "in_store") as ConsentSource,
+    },
+  })
+
+  const onSubmit = async (values: CustomerFormValues) => {
+    try {
+      const data = await updateCustomer(customer.id, {
+        phoneNumber: normalizePhone(values.phoneNumber, phoneCountry)!,
+        name: values.name || null,
+        email: values.email || null,
+        birthday: values.birthday || null,
+        preferredContact: values.preferredContact || null,
+        notes: values.notes || null,
+        marketingConsent: values.marketingConsent,
+        marketingConsentSource: values.marketingConsentSource || null,
+      })
+      setError("")
+      onSaved(data)
+    } catch (error) {
+      console.error("Error updating customer:", error)
+      if (errorCode(error) === "23505") {
+        form.setError("phoneNumber", { message: "Another customer already has this phone number" })
+      } else {
+        setError("Failed to update customer")
+      }
+    }
+  }
+
+  const saving = form.formState.isSubmitting
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+        <FormField
+          control={form.control}
+          name="phoneNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone Number</FormLabel>
+              <FormControl>
+                <Input type="tel" disabled={saving} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter customer name" disabled={saving} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <CustomerProfileFields disabled={saving} />
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Staff Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="Preferences, allergies, anything the next shift should know" disabled={saving} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+            disabled={saving}
+          >
+            {saving ? "Saving..." : "Save Changes"}
+          </button>
+          <button
+            type="button"
+            className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+            onClick={onCancel}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+
+import { CustomerSearch } from "@/components/customer-search"
+import { useTenant } from "@/components/tenant-provider"
+import { useStaff } from "@/hooks/use-staff"
+import { canManage } from "@/lib/auth"
+import { mergeCustomers, type Customer } from "@/lib/repositories"
+import { formatPhone } from "@/lib/phone"
+import { errorCode } from "@/lib/supabase"
+import { tenantPhoneCountry } from "@/lib/tenant"
+
+interface CustomerMergeProps {
+  // The survivor: the duplicate's history and points end up here
+  customer: Customer
+  // Likely duplicates, such as numbers that clashed during phone normalization
+  suggestions: Customer[]
+}
+
+// Manager tool for folding a duplicate record into this customer
+export function CustomerMerge({ customer, suggestions }: CustomerMergeProps) {
+  const router = useRouter()
+  const { role } = useStaff()
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const [duplicate, setDuplicate] = React.useState<Customer | null>(null)
+  const [error, setError] = React.useState("")
+  const [message, setMessage] = React.useState("")
+  const [loading, setLoading] = React.useState(false)
+
+  if (!canManage(role)) return null
+
+  const describe = (other: Customer) =>
+    `${other.name ?? "Unnamed customer"} · ${formatPhone(other.phone_number, phoneCountry)} · ${other.total_points} points`
+
+  const handleSelect = (other: Customer) => {
+    setMessage("")
+    if (other.id === customer.id) {
+      setError("Pick a different customer to merge into this one.")
+      return
+    }
+    setError("")
+    setDuplicate(other)
+  }
+
+  const handleMerge = async () => {
+    if (!duplicate) return
+    setLoading(true)
+    try {
+      await mergeCustomers(customer.id, duplicate.id)
+      setMessage(`Merged ${duplicate.name ?? formatPhone(duplicate.phone_number, phoneCountry)} into this customer.`)
+      setDuplicate(null)
+      setError("")
+      router.refresh()
+    } catch (error) {
+      const code = errorCode(error)
+      if (code === "42501") {
+        setError("Only managers can merge customers.")
+      } else if (code === "P0002") {
+        setError("One of these customers no longer exists or was already merged.")
+      } else {
+        setError("Failed to merge customers")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-xl p-8">
+      <h3 className="text-xl font-semibold mb-1">Merge Duplicate</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Moves the duplicate&apos;s history and points onto this customer. The duplicate is kept only as a pointer here.
+      </p>
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-2 rounded mb-4 text-sm">
+          {message}
+        </div>
+      )}
+
+      {duplicate ? (
+        <div className="space-y-4">
+          <p>
+            Merge <span className="font-semibold">{describe(duplicate)}</span> into this customer? This cannot be undone.
+          </p>
+          <div className="flex gap-3">
+            <button
+              className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+              onClick={handleMerge}
+              disabled={loading}
+            >
+              {loading ? "Merging..." : "Merge"}
+            </button>
+            <button
+              className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+              onClick={() => setDuplicate(null)}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {suggestions.length > 0 && (
+            <div>
+              <p className="text-sm font-semibold mb-2">Possible duplicates</p>
+              <ul className="space-y-2">
+                {suggestions.map(other => (
+                  <li key={other.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{describe(other)}</span>
+                    <button className="px-2 py-1 bg-gray-200 rounded" onClick={() => handleSelect(other)}>
+                      Merge
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <CustomerSearch onSelect={handleSelect} />
+        </div>
+      )}
+    </div>
+  )
+}
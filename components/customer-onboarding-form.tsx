@@ -0,0 +1,68 @@
+"use client"
+
+import * as React from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+
+import { Form } from "@/components/ui/form"
+import {
+  CustomerProfileFields,
+  customerProfileSchema,
+  refineCustomerProfile,
+  type CustomerProfileValues,
+} from "@/components/customer-profile-fields"
+
+const onboardingSchema = customerProfileSchema.superRefine(refineCustomerProfile)
+
+interface CustomerOnboardingFormProps {
+  // What the customer gets for signing up, shown as the reason to fill this in
+  welcomeBonus?: string | null
+  saving: boolean
+  onSubmit: (values: CustomerProfileValues) => Promise<void>
+  onBack: () => void
+}
+
+// Second step of adding a customer: contact details and marketing consent,
+// all optional, asked for while the customer is still at the counter
+export function CustomerOnboardingForm({ welcomeBonus, saving, onSubmit, onBack }: CustomerOnboardingFormProps) {
+  const form = useForm<CustomerProfileValues>({
+    resolver: zodResolver(onboardingSchema),
+    defaultValues: {
+      email: "",
+      birthday: "",
+      preferredContact: "",
+      marketingConsent: false,
+      marketingConsentSource: "in_store",
+    },
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {welcomeBonus && (
+          <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-2 rounded text-sm">
+            {welcomeBonus}
+          </div>
+        )}
+        <CustomerProfileFields disabled={saving} />
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="bg-black text-white font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-black"
+            disabled={saving}
+          >
+            {saving ? "Adding..." : "Add Customer"}
+          </button>
+          <button
+            type="button"
+            className="bg-white border border-black text-black font-semibold py-2 px-6 rounded-lg shadow hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black"
+            onClick={onBack}
+            disabled={saving}
+          >
+            Back
+          </button>
+        </div>
+      </form>
+    </Form>
+  )
+}
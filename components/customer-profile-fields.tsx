@@ -0,0 +1,139 @@
+"use client"
+
+import * as React from "react"
+import { useFormContext } from "react-hook-form"
+import { z } from "zod"
+
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { CONSENT_SOURCES, CONTACT_CHANNELS, type ConsentSource, type ContactChannel } from "@/lib/messaging"
+
+const contactChannels = Object.keys(CONTACT_CHANNELS) as [ContactChannel, ...ContactChannel[]]
+const consentSources = Object.keys(CONSENT_SOURCES) as [ConsentSource, ...ConsentSource[]]
+
+export const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+
+// Optional contact details and marketing consent, asked for at sign-up and on edit
+export const customerProfileSchema = z.object({
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email address")]),
+  birthday: z
+    .string()
+    .refine(value => !value || new Date(value) < new Date(), "Birthday must be in the past"),
+  preferredContact: z.union([z.literal(""), z.enum(contactChannels)]),
+  marketingConsent: z.boolean(),
+  marketingConsentSource: z.union([z.literal(""), z.enum(consentSources)]),
+})
+
+export type CustomerProfileValues = z.infer<typeof customerProfileSchema>
+
+export function refineCustomerProfile(values: CustomerProfileValues, ctx: z.RefinementCtx) {
+  if (values.preferredContact === "email" && !values.email) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["email"], message: "Add an email address to contact by email" })
+  }
+  if (values.marketingConsent && !values.marketingConsentSource) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["marketingConsentSource"], message: "Record where consent was given" })
+  }
+}
+
+// Fields for customerProfileSchema; render inside a Form whose values include it
+export function CustomerProfileFields({ disabled }: { disabled?: boolean }) {
+  const form = useFormContext<CustomerProfileValues>()
+  const marketingConsent = form.watch("marketingConsent")
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="email"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Email (Optional)</FormLabel>
+            <FormControl>
+              <Input type="email" placeholder="name@example.com" disabled={disabled} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="birthday"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Birthday (Optional)</FormLabel>
+              <FormControl>
+                <Input type="date" disabled={disabled} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="preferredContact"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Preferred Contact</FormLabel>
+              <FormControl>
+                <select className={selectClassName} disabled={disabled} {...field}>
+                  <option value="">No preference</option>
+                  {Object.entries(CONTACT_CHANNELS).map(([channel, label]) => (
+                    <option key={channel} value={channel}>{label}</option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="marketingConsent"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start gap-3 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} disabled={disabled} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel>Agrees to marketing messages</FormLabel>
+              <FormDescription>
+                Only tick this when the customer has said yes. Without it they are never messaged.
+              </FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+      {marketingConsent && (
+        <FormField
+          control={form.control}
+          name="marketingConsentSource"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Consent Given</FormLabel>
+              <FormControl>
+                <select className={selectClassName} disabled={disabled} {...field}>
+                  <option value="">Select where</option>
+                  {Object.entries(CONSENT_SOURCES).map(([source, label]) => (
+                    <option key={source} value={source}>{label}</option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import * as React from "react"
+import { Search } from "lucide-react"
+
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { useTenant } from "@/components/tenant-provider"
+import { searchCustomers, type Customer } from "@/lib/repositories"
+import { formatPhone } from "@/lib/phone"
+import { tenantPhoneCountry } from "@/lib/tenant"
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 200
+
+// Type-ahead palette matching partial phone numbers, last four digits and names.
+// Opens from the trigger button or Ctrl/Cmd+K; Enter picks the highlighted customer.
+export function CustomerSearch({ onSelect }: { onSelect: (customer: Customer) => void }) {
+  const phoneCountry = tenantPhoneCountry(useTenant())
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [results, setResults] = React.useState<Customer[]>([])
+  const [searching, setSearching] = React.useState(false)
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(current => !current)
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  React.useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([])
+      return
+    }
+    let cancelled = false
+    setSearching(true)
+    const timer = setTimeout(() => {
+      searchCustomers(query)
+        .then(customers => {
+          if (!cancelled) setResults(customers)
+        })
+        .catch(error => console.error("Error searching customers:", error))
+        .finally(() => {
+          if (!cancelled) setSearching(false)
+        })
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (!next) setQuery("")
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex w-full items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-left text-gray-500 hover:bg-gray-50"
+      >
+        <Search className="h-4 w-4" />
+        <span>Search by name or last 4 digits</span>
+        <kbd className="ml-auto rounded border bg-gray-100 px-1.5 text-xs">Ctrl K</kbd>
+      </button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search customers</DialogTitle>
+          {/* Matching happens in the database, so cmdk's own filtering is off */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+            <CommandInput
+              placeholder="Name, email, phone or last 4 digits..."
+              value={query}
+              onValueChange={setQuery}
+            />
+            <CommandList>
+              {query.trim().length >= 2 && (
+                <CommandEmpty>{searching ? "Searching..." : "No customers found."}</CommandEmpty>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading="Customers">
+                  {results.map(customer => (
+                    <CommandItem
+                      key={customer.id}
+                      value={customer.id}
+                      onSelect={() => {
+                        onSelect(customer)
+                        handleOpenChange(false)
+                      }}
+                    >
+                      <span className="font-medium">{customer.name ?? "Unnamed customer"}</span>
+                      <span className="text-muted-foreground">{formatPhone(customer.phone_number, phoneCountry)}</span>
+                      <CommandShortcut>{customer.total_points} pts</CommandShortcut>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { useStaff } from "@/hooks/use-staff"
+import { canManage } from "@/lib/auth"
+import { supabase } from "@/lib/supabase"
+
+export function StaffMenu() {
+  const router = useRouter()
+  const { user, role } = useStaff()
+
+  if (!user) return null
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut()
+    router.replace("/login")
+    router.refresh()
+  }
+
+  return (
+    <div className="ml-auto flex items-center gap-4 text-sm text-gray-300">
+      <Link href="/dashboard" className="font-semibold text-white hover:underline">
+        Dashboard
+      </Link>
+      <Link href="/customers" className="font-semibold text-white hover:underline">
+        Customers
+      </Link>
+      {canManage(role) && (
+        <Link href="/liability" className="font-semibold text-white hover:underline">
+          Liability
+        </Link>
+      )}
+      {role === "admin" && (
+        <Link href="/audit" className="font-semibold text-white hover:underline">
+          Audit
+        </Link>
+      )}
+      <span>
+        {user.email}
+        {role && <span className="ml-2 capitalize text-gray-400">({role})</span>}
+      </span>
+      <button
+        className="bg-white text-black font-semibold py-1 px-3 rounded-lg hover:bg-gray-200"
+        onClick={handleSignOut}
+      >
+        Sign Out
+      </button>
+    </div>
+  )
+}
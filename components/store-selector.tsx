@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { listStores, type Store } from "@/lib/repositories"
+import { getStoreId, setStoreId } from "@/lib/terminal"
+
+// Which store this terminal belongs to; remembered in the browser's local storage
+export function StoreSelector() {
+  const [stores, setStores] = useState<Store[]>([])
+  const [storeId, setSelectedStoreId] = useState<string>("")
+
+  useEffect(() => {
+    setSelectedStoreId(getStoreId() ?? "")
+    listStores()
+      .then(setStores)
+      .catch(error => console.error("Error loading stores:", error))
+  }, [])
+
+  if (stores.length === 0) return null
+
+  return (
+    <select
+      value={storeId}
+      onChange={(e) => {
+        setStoreId(e.target.value)
+        setSelectedStoreId(e.target.value)
+      }}
+      className="ml-6 rounded-lg bg-gray-900 text-white border border-gray-700 px-3 py-1 text-sm"
+      aria-label="Store"
+    >
+      <option value="" disabled>Select store</option>
+      {stores.map(store => (
+        <option key={store.id} value={store.id}>{store.name}</option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+
+import * as React from "react"
+
+import type { Tenant } from "@/lib/tenant"
+
+const TenantContext = React.createContext<Tenant | null>(null)
+
+// Makes the tenant resolved on the server available to client components
+export function TenantProvider({ tenant, children }: { tenant: Tenant | null; children: React.ReactNode }) {
+  return <TenantContext.Provider value={tenant}>{children}</TenantContext.Provider>
+}
+
+export function useTenant() {
+  return React.useContext(TenantContext)
+}
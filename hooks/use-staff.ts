@@ -0,0 +1,24 @@
+import * as React from "react"
+import type { User } from "@supabase/supabase-js"
+
+import { getStaffRole, type StaffRole } from "@/lib/auth"
+import { supabase } from "@/lib/supabase"
+
+export function useStaff() {
+  const [user, setUser] = React.useState<User | null>(null)
+  const [role, setRole] = React.useState<StaffRole | null>(null)
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null)
+      setRole(getStaffRole(data.session))
+    })
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null)
+      setRole(getStaffRole(session))
+    })
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  return { user, role }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { safeNextPath } from '@/lib/auth'
+
+const origin = 'https://loyalty.example.com'
+
+// Where the browser ends up after redirecting to the result
+function destination(next: string | null): URL {
+  return new URL(safeNextPath(next), origin)
+}
+
+describe('safeNextPath', () => {
+  it('keeps paths on this site', () => {
+    expect(safeNextPath('/customers?sort=name')).toBe('/customers?sort=name')
+    expect(safeNextPath('/%5Cx')).toBe('/%5Cx')
+    expect(destination('/%5Cx').origin).toBe(origin)
+  })
+
+  it('falls back for other sites', () => {
+    for (const next of ['//x', '/\\x', '/\t/x', 'https://x', 'x']) {
+      expect(safeNextPath(next)).toBe('/')
+      expect(destination(next).origin).toBe(origin)
+    }
+  })
+
+  it('falls back when there is no path', () => {
+    expect(safeNextPath(null)).toBe('/')
+    expect(safeNextPath(undefined, '/customers')).toBe('/customers')
+  })
+})
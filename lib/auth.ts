@@ -0,0 +1,27 @@
+import type { Session } from '@supabase/supabase-js'
+
+export type StaffRole = 'cashier' | 'manager' | 'admin'
+
+const STAFF_ROLES: StaffRole[] = ['cashier', 'manager', 'admin']
+
+// Roles live in the user's app_metadata, which only the service role can change.
+// current_staff_role() reads the same claim on the database side.
+export function getStaffRole(session: Session | null): StaffRole | null {
+  const role = session?.user.app_metadata?.role
+  return STAFF_ROLES.includes(role) ? role : null
+}
+
+// Managers and admins may adjust, void and export
+export function canManage(role: StaffRole | null): boolean {
+  return role === 'manager' || role === 'admin'
+}
+
+// A path on this site. Browsers read "/\host" like "//host", another site, and
+// drop tabs and line breaks, so "/<tab>/host" would end up the same way.
+const SAME_SITE_PATH = /^\/(?![/\\])[^\u0000-\u001f]*$/
+
+// Redirect target taken from the query string, such as after sign-in; anything
+// that is not a path on this site falls back
+export function safeNextPath(next: string | null | undefined, fallback = '/'): string {
+  return next && SAME_SITE_PATH.test(next) ? next : fallback
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { csvDelimiter, parseCsv, toCsv } from '@/lib/csv'
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('phone,name\r\n5551234567,Ann\n')).toEqual([
+      ['phone', 'name'],
+      ['5551234567', 'Ann']
+    ])
+  })
+
+  it('honours quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('"Smith, Ann","Say ""hi""","two\nlines"')).toEqual([['Smith, Ann', 'Say "hi"', 'two\nlines']])
+  })
+
+  it('reads semicolon-separated files, keeping decimal commas in the field', () => {
+    expect(parseCsv('phone;points\n5551234567;12,5\n')).toEqual([
+      ['phone', 'points'],
+      ['5551234567', '12,5']
+    ])
+  })
+
+  it('drops a byte order mark and keeps blank lines so rows match the file', () => {
+    expect(parseCsv('\uFEFFphone\n\n5551234567')).toEqual([['phone'], [''], ['5551234567']])
+  })
+})
+
+describe('csvDelimiter', () => {
+  it('is whichever of comma and semicolon the first line has more of', () => {
+    expect(csvDelimiter('a,b;c,d\n1;2')).toBe(',')
+    expect(csvDelimiter('a;b;c,d\n1,2')).toBe(';')
+    expect(csvDelimiter('phone')).toBe(',')
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes fields that need it and leaves null empty', () => {
+    expect(toCsv(['a', 'b', 'c'], [['x,y', 'say "hi"', null]])).toBe('a,b,c\r\n"x,y","say ""hi""",\r\n')
+  })
+
+  it('keeps text from opening as a formula', () => {
+    expect(toCsv(['name'], [['=HYPERLINK("http://x")'], ['+1'], ['@SUM(A1)'], ['-x']])).toBe(
+      'name\r\n"\'=HYPERLINK(""http://x"")"\r\n+1\r\n\'@SUM(A1)\r\n\'-x\r\n'
+    )
+  })
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv(['points', 'liability'], [[-25, '-12.50']])).toBe('points,liability\r\n-25,-12.50\r\n')
+  })
+})
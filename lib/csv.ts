@@ -0,0 +1,87 @@
+export type CsvValue = string | number | boolean | null | undefined
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/
+const NUMBER = /^[+-]?\d+(\.\d+)?$/
+
+// Quote fields that need it (RFC 4180); empty for null and undefined. Text
+// that would open as a formula, such as a customer named "=HYPERLINK(...)",
+// gets a leading apostrophe so it opens as text; numbers are left as they are.
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (typeof value === 'string' && FORMULA_START.test(text) && !NUMBER.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * The field delimiter of CSV text. Excel saves semicolon-separated files in
+ * locales that write decimals with a comma, so it is whichever of the two the
+ * first line has more of.
+ */
+export function csvDelimiter(text: string): ',' | ';' {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with embedded
+ * commas, quotes and line breaks, on the delimiter csvDelimiter() finds.
+ * Blank lines are kept, as rows with one empty field, so row numbers match
+ * the file.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = csvDelimiter(input)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  // No empty row for the newline that ends the file
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// Save a CSV from the browser
+export function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { excludeExisting, guessMapping, parseImportDate, prepareImport } from '@/lib/customer-import'
+
+const today = '2024-06-01'
+
+function sheetWithPoints(...points: string[]): string[][] {
+  return [['Phone', 'Points'], ...points.map((value, index) => [`555123456${index}`, value])]
+}
+
+function importPoints(sheet: string[][], decimalComma = false) {
+  return prepareImport(sheet, guessMapping(sheet[0]), 'US', today, decimalComma)
+}
+
+describe('guessMapping', () => {
+  it('matches fields to recognised headings', () => {
+    expect(guessMapping(['Mobile Number', 'Full_Name', 'DOB', 'Notes'])).toMatchObject({
+      phone_number: 0,
+      name: 1,
+      birthday: 2,
+      email: null
+    })
+  })
+})
+
+describe('parseImportDate', () => {
+  it('reads month first for US numbers and day first elsewhere', () => {
+    expect(parseImportDate('03/04/1990', 'US')).toBe('1990-03-04')
+    expect(parseImportDate('03/04/1990', 'GB')).toBe('1990-04-03')
+    expect(parseImportDate('1990-4-3', 'GB')).toBe('1990-04-03')
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(parseImportDate('31/02/1990', 'GB')).toBeNull()
+    expect(parseImportDate('next week', 'GB')).toBeNull()
+  })
+})
+
+describe('prepareImport', () => {
+  it('reads thousands separators and whole decimals with a decimal point', () => {
+    const { rows, problems } = importPoints(sheetWithPoints('1,250', '40.0', '', '1 000'))
+    expect(rows.map(row => row.points)).toEqual([1250, 40, 0, 1000])
+    expect(problems).toEqual([])
+  })
+
+  it('reads thousands separators and whole decimals with a decimal comma', () => {
+    const { rows, problems } = importPoints(sheetWithPoints('1.250', '40,0', '1 000'), true)
+    expect(rows.map(row => row.points)).toEqual([1250, 40, 1000])
+    expect(problems).toEqual([])
+  })
+
+  it('reports fractional balances instead of reading the separator as a thousands separator', () => {
+    const { rows, problems } = importPoints(sheetWithPoints('12,5', '7'), true)
+    expect(rows.map(row => row.points)).toEqual([7])
+    expect(problems).toEqual([
+      { sourceRow: 2, values: ['5551234560', '12,5'], reason: 'Points must be a whole number of 0 or more, not "12,5"' }
+    ])
+  })
+
+  it('reports negative balances and balances the database cannot store', () => {
+    const { rows, problems } = importPoints(sheetWithPoints('-5', '2147483648', '2147483647'))
+    expect(rows.map(row => row.points)).toEqual([2147483647])
+    expect(problems.map(problem => problem.sourceRow)).toEqual([2, 3])
+    expect(problems[1].reason).toMatch(/^Points cannot be more than/)
+  })
+
+  it('skips blank rows and reports later rows with the same phone number', () => {
+    const sheet = [['', ''], ['Phone', 'Name'], ['(555) 123-4567', 'Ann'], ['', ''], ['555.123.4567', 'Ann again']]
+    const { rows, problems } = prepareImport(sheet, guessMapping(sheet[1]), 'US', today)
+    expect(rows).toEqual([
+      {
+        source_row: 3,
+        phone_number: '+15551234567',
+        name: 'Ann',
+        email: null,
+        birthday: null,
+        member_since: null,
+        points: 0,
+        marketing_consent: false
+      }
+    ])
+    expect(problems).toEqual([{ sourceRow: 5, values: sheet[4], reason: 'Same phone number as row 3' }])
+  })
+
+  it('reports invalid phone numbers, emails and dates', () => {
+    const sheet = [
+      ['Phone', 'Email', 'Birthday', 'Member since'],
+      ['', '', '', ''],
+      ['12', '', '', ''],
+      ['5551234567', 'ann@', '', ''],
+      ['5551234568', '', '2025-01-01', ''],
+      ['5551234569', '', '', '2024-07-01']
+    ]
+    const { rows, problems } = prepareImport(sheet, guessMapping(sheet[0]), 'US', today)
+    expect(rows).toEqual([])
+    expect(problems.map(problem => problem.reason)).toEqual([
+      'Invalid phone number "12"',
+      'Invalid email "ann@"',
+      'Birthday must be in the past',
+      'Member since date is in the future'
+    ])
+  })
+})
+
+describe('excludeExisting', () => {
+  it('moves rows for existing customers to the problems in file order', () => {
+    const sheet = [['Phone'], ['5551234567'], ['12'], ['5551234568']]
+    const preview = prepareImport(sheet, guessMapping(sheet[0]), 'US', today)
+    const result = excludeExisting(preview, sheet, new Set(['+15551234567']))
+    expect(result.rows.map(row => row.source_row)).toEqual([4])
+    expect(result.problems.map(problem => [problem.sourceRow, problem.reason])).toEqual([
+      [2, 'Already a customer'],
+      [3, 'Invalid phone number "12"']
+    ])
+  })
+})
@@ -0,0 +1,240 @@
+import { toCsv } from '@/lib/csv'
+import { normalizePhone, type PhoneCountry } from '@/lib/phone'
+
+// Customer details an import file can supply, in the order they are mapped
+export type ImportField = 'phone_number' | 'name' | 'email' | 'birthday' | 'member_since' | 'points' | 'marketing_consent'
+
+interface ImportFieldDefinition {
+  label: string
+  required?: boolean
+  // Column headings recognised for the field, lower case
+  headings: string[]
+}
+
+export const IMPORT_FIELDS: Record<ImportField, ImportFieldDefinition> = {
+  phone_number: {
+    label: 'Phone number',
+    required: true,
+    headings: ['phone', 'phone number', 'mobile', 'mobile number', 'cell', 'telephone', 'tel']
+  },
+  name: { label: 'Name', headings: ['name', 'full name', 'customer', 'customer name'] },
+  email: { label: 'Email', headings: ['email', 'e-mail', 'email address'] },
+  birthday: { label: 'Birthday', headings: ['birthday', 'birth date', 'date of birth', 'dob'] },
+  member_since: { label: 'Member since', headings: ['member since', 'joined', 'join date', 'signed up', 'sign-up date'] },
+  points: { label: 'Points balance', headings: ['points', 'balance', 'points balance', 'stamps', 'punches'] },
+  marketing_consent: {
+    label: 'Marketing consent',
+    headings: ['marketing', 'marketing consent', 'consent', 'opt in', 'opted in', 'subscribed']
+  }
+}
+
+// Index of the file column each field is read from; null when it is not imported
+export type ColumnMapping = Record<ImportField, number | null>
+
+// One customer to create; the shape import_customers() expects
+export interface ImportRow {
+  source_row: number
+  phone_number: string
+  name: string | null
+  email: string | null
+  birthday: string | null
+  member_since: string | null
+  points: number
+  marketing_consent: boolean
+}
+
+// A row that will not be imported, with the row's original cells
+export interface ImportProblem {
+  sourceRow: number
+  values: string[]
+  reason: string
+}
+
+export interface ImportPreview {
+  rows: ImportRow[]
+  problems: ImportProblem[]
+}
+
+// Most imports come from a few hundred punch cards; the database refuses more than this
+export const MAX_IMPORT_ROWS = 5000
+
+// The largest balance the database can store
+export const MAX_IMPORT_POINTS = 2_147_483_647
+
+const EMAIL = /^[^@\s]+@[^@\s]+\.[^@\s]+$/
+
+const CONSENT_VALUES: Record<string, boolean> = {
+  yes: true, y: true, true: true, '1': true, x: true, 'opted in': true,
+  no: false, n: false, false: false, '0': false, 'opted out': false
+}
+
+function isBlank(cells: string[]): boolean {
+  return cells.every(value => value.trim() === '')
+}
+
+// The header is the first row with anything in it
+export function headerRowIndex(sheet: string[][]): number {
+  return sheet.findIndex(cells => !isBlank(cells))
+}
+
+// Match each field to the first column whose heading it recognises
+export function guessMapping(header: string[]): ColumnMapping {
+  const headings = header.map(heading => heading.trim().toLowerCase().replace(/[_\s]+/g, ' '))
+  const mapping = {} as ColumnMapping
+  for (const field of Object.keys(IMPORT_FIELDS) as ImportField[]) {
+    const index = headings.findIndex(heading => IMPORT_FIELDS[field].headings.includes(heading))
+    mapping[field] = index === -1 ? null : index
+  }
+  return mapping
+}
+
+/**
+ * Read a date cell as YYYY-MM-DD. Besides ISO dates, accepts day/month/year
+ * with slashes, dots or dashes; month comes first for US numbers, as it does
+ * in American spreadsheets. Returns null when the text is not a real date.
+ */
+export function parseImportDate(value: string, country: PhoneCountry): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const local = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  let parts: number[]
+  if (iso) {
+    parts = iso.slice(1).map(Number)
+  } else if (local) {
+    const [first, second, year] = local.slice(1).map(Number)
+    parts = country === 'US' ? [year, first, second] : [year, second, first]
+  } else {
+    return null
+  }
+  const [year, month, day] = parts
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+// Whole, non-negative points; blank is a zero balance. Thousands separators
+// are allowed: points or spaces with a decimal comma, else commas or spaces.
+function parsePoints(value: string, decimalComma: boolean): number | null {
+  const [thousands, decimal] = decimalComma ? ['.', ','] : [',', '.']
+  const cleaned = value.replace(/\s/g, '').split(thousands).join('').replace(decimal, '.')
+  if (cleaned === '') return 0
+  if (!/^\d+(\.0+)?$/.test(cleaned)) return null
+  return Number(cleaned)
+}
+
+function validateRow(
+  cells: string[],
+  mapping: ColumnMapping,
+  country: PhoneCountry,
+  today: string,
+  decimalComma: boolean
+): { row: Omit<ImportRow, 'source_row'> } | { reason: string } {
+  const cell = (field: ImportField) => {
+    const index = mapping[field]
+    return index === null ? '' : (cells[index] ?? '').trim()
+  }
+
+  const phone = cell('phone_number')
+  if (!phone) return { reason: 'Missing phone number' }
+  const phoneNumber = normalizePhone(phone, country)
+  if (!phoneNumber) return { reason: `Invalid phone number "${phone}"` }
+
+  const email = cell('email')
+  if (email && !EMAIL.test(email)) return { reason: `Invalid email "${email}"` }
+
+  const birthdayText = cell('birthday')
+  const birthday = birthdayText ? parseImportDate(birthdayText, country) : null
+  if (birthdayText && !birthday) return { reason: `Unrecognised birthday "${birthdayText}"` }
+  if (birthday && birthday >= today) return { reason: 'Birthday must be in the past' }
+
+  const memberSinceText = cell('member_since')
+  const memberSince = memberSinceText ? parseImportDate(memberSinceText, country) : null
+  if (memberSinceText && !memberSince) return { reason: `Unrecognised member since date "${memberSinceText}"` }
+  if (memberSince && memberSince > today) return { reason: 'Member since date is in the future' }
+
+  const points = parsePoints(cell('points'), decimalComma)
+  if (points === null) return { reason: `Points must be a whole number of 0 or more, not "${cell('points')}"` }
+  if (points > MAX_IMPORT_POINTS) return { reason: `Points cannot be more than ${MAX_IMPORT_POINTS.toLocaleString()}` }
+
+  const consent = cell('marketing_consent').toLowerCase()
+  if (consent && !(consent in CONSENT_VALUES)) {
+    return { reason: `Unrecognised marketing consent "${cell('marketing_consent')}"; use yes or no` }
+  }
+
+  return {
+    row: {
+      phone_number: phoneNumber,
+      name: cell('name') || null,
+      email: email || null,
+      birthday,
+      member_since: memberSince,
+      points,
+      marketing_consent: consent ? CONSENT_VALUES[consent] : false
+    }
+  }
+}
+
+/**
+ * Validate the rows of a sheet below its header against the column mapping.
+ * Blank rows are ignored. A phone number that appears again further down is
+ * reported against the later row. Today is YYYY-MM-DD; decimalComma is from
+ * readSpreadsheet().
+ */
+export function prepareImport(
+  sheet: string[][],
+  mapping: ColumnMapping,
+  country: PhoneCountry,
+  today: string,
+  decimalComma = false
+): ImportPreview {
+  const rows: ImportRow[] = []
+  const problems: ImportProblem[] = []
+  const firstRowByPhone = new Map<string, number>()
+
+  const header = headerRowIndex(sheet)
+  sheet.forEach((cells, index) => {
+    if (index <= header || isBlank(cells)) return
+    const sourceRow = index + 1
+    const result = validateRow(cells, mapping, country, today, decimalComma)
+    if ('reason' in result) {
+      problems.push({ sourceRow, values: cells, reason: result.reason })
+      return
+    }
+    const firstRow = firstRowByPhone.get(result.row.phone_number)
+    if (firstRow !== undefined) {
+      problems.push({ sourceRow, values: cells, reason: `Same phone number as row ${firstRow}` })
+      return
+    }
+    firstRowByPhone.set(result.row.phone_number, sourceRow)
+    rows.push({ source_row: sourceRow, ...result.row })
+  })
+
+  return { rows, problems }
+}
+
+// Move rows whose phone number already belongs to a customer over to the problems
+export function excludeExisting(preview: ImportPreview, sheet: string[][], existing: Set<string>): ImportPreview {
+  const duplicates = preview.rows.filter(row => existing.has(row.phone_number))
+  return {
+    rows: preview.rows.filter(row => !existing.has(row.phone_number)),
+    problems: [
+      ...preview.problems,
+      ...duplicates.map(row => ({
+        sourceRow: row.source_row,
+        values: sheet[row.source_row - 1],
+        reason: 'Already a customer'
+      }))
+    ].sort((a, b) => a.sourceRow - b.sourceRow)
+  }
+}
+
+// The rows that were not imported, as they appeared in the file, with the reason for each
+export function problemReportCsv(header: string[], problems: ImportProblem[]): string {
+  return toCsv(
+    ['Row', ...header, 'Problem'],
+    problems.map(problem => [
+      problem.sourceRow,
+      ...header.map((_, index) => problem.values[index] ?? ''),
+      problem.reason
+    ])
+  )
+}
@@ -0,0 +1,92 @@
+import { createServerSupabase } from '@/lib/supabase-server'
+import type { Customer, ReferralWithCustomers, Store, Transaction } from '@/lib/repositories'
+import type { Tier } from '@/lib/tiers'
+
+// How much history the profile page shows; the full ledger is in the history dialog
+const RECENT_ACTIVITY_LIMIT = 10
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface CustomerProfile {
+  customer: Customer
+  tier: Tier | null
+  recentTransactions: Transaction[]
+  // Every store of the tenant, including inactive ones that still appear in history
+  stores: Store[]
+  // Customers whose number clashed with this one's during phone normalization;
+  // only managers can see these
+  possibleDuplicates: Customer[]
+  // Friends this customer referred, newest first
+  referrals: ReferralWithCustomers[]
+  // The referral that brought this customer in, if any
+  referredBy: ReferralWithCustomers | null
+}
+
+// Everything the profile page renders up front, read as the signed-in staff
+// member. Null when the customer does not exist or belongs to another tenant.
+// A merged duplicate is returned as is; callers follow merged_into_id.
+export async function getCustomerProfile(id: string): Promise<CustomerProfile | null> {
+  if (!UUID.test(id)) return null
+
+  const supabase = await createServerSupabase()
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  if (!customer) return null
+
+  const [tierResult, transactionsResult, storesResult, conflictsResult, referralsResult] = await Promise.all([
+    customer.tier_id
+      ? supabase.from('tiers').select('*').eq('id', customer.tier_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase
+      .from('transactions')
+      .select('*')
+      .eq('customer_id', id)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT),
+    supabase.from('stores').select('*').order('name', { ascending: true }),
+    supabase
+      .from('phone_normalization_conflicts')
+      .select('customer_id, conflicting_customer_id')
+      .or(`customer_id.eq.${id},conflicting_customer_id.eq.${id}`),
+    supabase
+      .from('referrals')
+      .select(
+        '*, referrer:customers!referrals_referrer_id_fkey(id, name, phone_number), referee:customers!referrals_referee_id_fkey(id, name, phone_number)'
+      )
+      .or(`referrer_id.eq.${id},referee_id.eq.${id}`)
+      .order('created_at', { ascending: false })
+  ])
+  if (tierResult.error) throw tierResult.error
+  if (transactionsResult.error) throw transactionsResult.error
+  if (storesResult.error) throw storesResult.error
+  if (conflictsResult.error) throw conflictsResult.error
+  if (referralsResult.error) throw referralsResult.error
+
+  const otherIds = conflictsResult.data
+    .map(conflict => conflict.customer_id === id ? conflict.conflicting_customer_id : conflict.customer_id)
+    .filter((otherId): otherId is string => !!otherId)
+  let possibleDuplicates: Customer[] = []
+  if (otherIds.length > 0) {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .in('id', otherIds)
+      .is('merged_into_id', null)
+    if (error) throw error
+    possibleDuplicates = data
+  }
+
+  return {
+    customer,
+    tier: tierResult.data,
+    recentTransactions: transactionsResult.data,
+    stores: storesResult.data,
+    possibleDuplicates,
+    referrals: referralsResult.data.filter(referral => referral.referrer_id === id),
+    referredBy: referralsResult.data.find(referral => referral.referee_id === id) ?? null
+  }
+}
@@ -0,0 +1,1289 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      adjustment_reasons: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string
+          label: string
+          tenant_id: string
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string
+          label: string
+          tenant_id?: string
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string
+          label?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "adjustment_reasons_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          balance_after: number | null
+          balance_before: number | null
+          customer_id: string | null
+          details: Json
+          id: string
+          occurred_at: string
+          store_id: string | null
+          tenant_id: string
+          terminal_id: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          balance_after?: number | null
+          balance_before?: number | null
+          customer_id?: string | null
+          details?: Json
+          id?: string
+          occurred_at?: string
+          store_id?: string | null
+          tenant_id?: string
+          terminal_id?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          balance_after?: number | null
+          balance_before?: number | null
+          customer_id?: string | null
+          details?: Json
+          id?: string
+          occurred_at?: string
+          store_id?: string | null
+          tenant_id?: string
+          terminal_id?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bonus_grants: {
+        Row: {
+          customer_id: string
+          granted_at: string
+          kind: string
+          tenant_id: string
+          transaction_id: string
+          year: number
+        }
+        Insert: {
+          customer_id: string
+          granted_at?: string
+          kind: string
+          tenant_id: string
+          transaction_id: string
+          year: number
+        }
+        Update: {
+          customer_id?: string
+          granted_at?: string
+          kind?: string
+          tenant_id?: string
+          transaction_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bonus_grants_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bonus_grants_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bonus_grants_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_imports: {
+        Row: {
+          created_at: string
+          customers_created: number
+          file_name: string
+          id: string
+          imported_by: string | null
+          points_imported: number
+          rows_skipped: number
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          customers_created?: number
+          file_name: string
+          id?: string
+          imported_by?: string | null
+          points_imported?: number
+          rows_skipped?: number
+          tenant_id?: string
+        }
+        Update: {
+          created_at?: string
+          customers_created?: number
+          file_name?: string
+          id?: string
+          imported_by?: string | null
+          points_imported?: number
+          rows_skipped?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_imports_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          birthday: string | null
+          created_at: string
+          email: string | null
+          home_store_id: string | null
+          id: string
+          import_id: string | null
+          last_visit_at: string | null
+          marketing_consent: boolean
+          marketing_consent_at: string | null
+          marketing_consent_source: string | null
+          merged_at: string | null
+          merged_into_id: string | null
+          name: string | null
+          notes: string | null
+          phone_number: string
+          preferred_contact: string | null
+          referral_code: string
+          tenant_id: string
+          tier_achieved_at: string | null
+          tier_id: string | null
+          total_points: number
+          updated_at: string
+        }
+        Insert: {
+          birthday?: string | null
+          created_at?: string
+          email?: string | null
+          home_store_id?: string | null
+          id?: string
+          import_id?: string | null
+          last_visit_at?: string | null
+          marketing_consent?: boolean
+          marketing_consent_at?: string | null
+          marketing_consent_source?: string | null
+          merged_at?: string | null
+          merged_into_id?: string | null
+          name?: string | null
+          notes?: string | null
+          phone_number: string
+          preferred_contact?: string | null
+          referral_code?: string
+          tenant_id?: string
+          tier_achieved_at?: string | null
+          tier_id?: string | null
+          total_points?: number
+          updated_at?: string
+        }
+        Update: {
+          birthday?: string | null
+          created_at?: string
+          email?: string | null
+          home_store_id?: string | null
+          id?: string
+          import_id?: string | null
+          last_visit_at?: string | null
+          marketing_consent?: boolean
+          marketing_consent_at?: string | null
+          marketing_consent_source?: string | null
+          merged_at?: string | null
+          merged_into_id?: string | null
+          name?: string | null
+          notes?: string | null
+          phone_number?: string
+          preferred_contact?: string | null
+          referral_code?: string
+          tenant_id?: string
+          tier_achieved_at?: string | null
+          tier_id?: string | null
+          total_points?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_home_store_id_fkey"
+            columns: ["home_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "customer_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      earn_rules: {
+        Row: {
+          active: boolean
+          birthday_window: string | null
+          bonus_points: number | null
+          category: string | null
+          created_at: string
+          days_of_week: number[] | null
+          ends_at: string | null
+          id: string
+          min_spend: number | null
+          multiplier: number | null
+          name: string
+          rule_type: string
+          starts_at: string | null
+          tenant_id: string
+        }
+        Insert: {
+          active?: boolean
+          birthday_window?: string | null
+          bonus_points?: number | null
+          category?: string | null
+          created_at?: string
+          days_of_week?: number[] | null
+          ends_at?: string | null
+          id?: string
+          min_spend?: number | null
+          multiplier?: number | null
+          name: string
+          rule_type: string
+          starts_at?: string | null
+          tenant_id?: string
+        }
+        Update: {
+          active?: boolean
+          birthday_window?: string | null
+          bonus_points?: number | null
+          category?: string | null
+          created_at?: string
+          days_of_week?: number[] | null
+          ends_at?: string | null
+          id?: string
+          min_spend?: number | null
+          multiplier?: number | null
+          name?: string
+          rule_type?: string
+          starts_at?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "earn_rules_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      liability_periods: {
+        Row: {
+          adjusted_points: number
+          closed_at: string
+          closed_by: string | null
+          closing_liability: number
+          closing_points: number
+          expired_points: number
+          id: string
+          issued_points: number
+          opening_liability: number
+          opening_points: number
+          period_end: string
+          period_start: string
+          point_value: number
+          redeemed_points: number
+          tenant_id: string
+        }
+        Insert: {
+          adjusted_points: number
+          closed_at?: string
+          closed_by?: string | null
+          closing_liability: number
+          closing_points: number
+          expired_points: number
+          id?: string
+          issued_points: number
+          opening_liability: number
+          opening_points: number
+          period_end: string
+          period_start: string
+          point_value: number
+          redeemed_points: number
+          tenant_id?: string
+        }
+        Update: {
+          adjusted_points?: number
+          closed_at?: string
+          closed_by?: string | null
+          closing_liability?: number
+          closing_points?: number
+          expired_points?: number
+          id?: string
+          issued_points?: number
+          opening_liability?: number
+          opening_points?: number
+          period_end?: string
+          period_start?: string
+          point_value?: number
+          redeemed_points?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liability_periods_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_normalization_conflicts: {
+        Row: {
+          conflicting_customer_id: string | null
+          customer_id: string
+          detected_at: string
+          normalized_phone: string | null
+          phone_number: string
+          reason: string
+          tenant_id: string
+        }
+        Insert: {
+          conflicting_customer_id?: string | null
+          customer_id: string
+          detected_at?: string
+          normalized_phone?: string | null
+          phone_number: string
+          reason: string
+          tenant_id: string
+        }
+        Update: {
+          conflicting_customer_id?: string | null
+          customer_id?: string
+          detected_at?: string
+          normalized_phone?: string | null
+          phone_number?: string
+          reason?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_normalization_conflicts_conflicting_customer_id_fkey"
+            columns: ["conflicting_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phone_normalization_conflicts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: true
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phone_normalization_conflicts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      point_lots: {
+        Row: {
+          customer_id: string
+          earned_at: string
+          expires_at: string | null
+          id: string
+          points: number
+          remaining: number
+          tenant_id: string
+          transaction_id: string | null
+        }
+        Insert: {
+          customer_id: string
+          earned_at?: string
+          expires_at?: string | null
+          id?: string
+          points: number
+          remaining: number
+          tenant_id?: string
+          transaction_id?: string | null
+        }
+        Update: {
+          customer_id?: string
+          earned_at?: string
+          expires_at?: string | null
+          id?: string
+          points?: number
+          remaining?: number
+          tenant_id?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_lots_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "point_lots_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "point_lots_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      program_settings: {
+        Row: {
+          allow_negative_balance: boolean
+          anniversary_bonus_points: number | null
+          birthday_bonus_points: number | null
+          max_referrals_per_month: number
+          point_value: number
+          points_expiry_months: number | null
+          referee_bonus_points: number | null
+          referral_min_purchase: number
+          referrer_bonus_points: number | null
+          tenant_id: string
+          updated_at: string
+          welcome_bonus_days: number | null
+          welcome_bonus_points: number | null
+        }
+        Insert: {
+          allow_negative_balance?: boolean
+          anniversary_bonus_points?: number | null
+          birthday_bonus_points?: number | null
+          max_referrals_per_month?: number
+          point_value?: number
+          points_expiry_months?: number | null
+          referee_bonus_points?: number | null
+          referral_min_purchase?: number
+          referrer_bonus_points?: number | null
+          tenant_id?: string
+          updated_at?: string
+          welcome_bonus_days?: number | null
+          welcome_bonus_points?: number | null
+        }
+        Update: {
+          allow_negative_balance?: boolean
+          anniversary_bonus_points?: number | null
+          birthday_bonus_points?: number | null
+          max_referrals_per_month?: number
+          point_value?: number
+          points_expiry_months?: number | null
+          referee_bonus_points?: number | null
+          referral_min_purchase?: number
+          referrer_bonus_points?: number | null
+          tenant_id?: string
+          updated_at?: string
+          welcome_bonus_days?: number | null
+          welcome_bonus_points?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_settings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referrals: {
+        Row: {
+          created_at: string
+          id: string
+          qualifying_transaction_id: string | null
+          referee_id: string
+          referee_transaction_id: string | null
+          referrer_id: string
+          referrer_transaction_id: string | null
+          rewarded_at: string | null
+          status: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          qualifying_transaction_id?: string | null
+          referee_id: string
+          referee_transaction_id?: string | null
+          referrer_id: string
+          referrer_transaction_id?: string | null
+          rewarded_at?: string | null
+          status?: string
+          tenant_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          qualifying_transaction_id?: string | null
+          referee_id?: string
+          referee_transaction_id?: string | null
+          referrer_id?: string
+          referrer_transaction_id?: string | null
+          rewarded_at?: string | null
+          status?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referrals_qualifying_transaction_id_fkey"
+            columns: ["qualifying_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_referee_id_fkey"
+            columns: ["referee_id"]
+            isOneToOne: true
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_referee_transaction_id_fkey"
+            columns: ["referee_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_referrer_id_fkey"
+            columns: ["referrer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_referrer_transaction_id_fkey"
+            columns: ["referrer_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rewards: {
+        Row: {
+          active: boolean
+          created_at: string
+          ends_at: string | null
+          id: string
+          item_name: string | null
+          min_balance: number
+          name: string
+          points_cost: number
+          reward_type: string
+          starts_at: string | null
+          tenant_id: string
+          value: number | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          ends_at?: string | null
+          id?: string
+          item_name?: string | null
+          min_balance?: number
+          name: string
+          points_cost: number
+          reward_type: string
+          starts_at?: string | null
+          tenant_id?: string
+          value?: number | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          ends_at?: string | null
+          id?: string
+          item_name?: string | null
+          min_balance?: number
+          name?: string
+          points_cost?: number
+          reward_type?: string
+          starts_at?: string | null
+          tenant_id?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rewards_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stores: {
+        Row: {
+          active: boolean
+          address: string | null
+          code: string
+          created_at: string
+          id: string
+          name: string
+          tenant_id: string
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          tenant_id?: string
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stores_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tenants: {
+        Row: {
+          created_at: string
+          default_country: string
+          id: string
+          logo_url: string | null
+          name: string
+          slug: string
+          time_zone: string
+        }
+        Insert: {
+          created_at?: string
+          default_country?: string
+          id?: string
+          logo_url?: string | null
+          name: string
+          slug: string
+          time_zone?: string
+        }
+        Update: {
+          created_at?: string
+          default_country?: string
+          id?: string
+          logo_url?: string | null
+          name?: string
+          slug?: string
+          time_zone?: string
+        }
+        Relationships: []
+      }
+      tiers: {
+        Row: {
+          created_at: string
+          earn_multiplier: number
+          id: string
+          min_spend: number
+          name: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_spend: number
+          name: string
+          tenant_id?: string
+        }
+        Update: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_spend?: number
+          name?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tiers_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          actor_id: string | null
+          amount: number
+          applied_rules: Json
+          balance_after: number | null
+          balance_before: number | null
+          created_at: string
+          customer_id: string
+          id: string
+          note: string | null
+          points_changed: number
+          reason_code: string | null
+          reverses_transaction_id: string | null
+          reward_id: string | null
+          store_id: string | null
+          tenant_id: string
+          terminal_id: string | null
+          type: string
+        }
+        Insert: {
+          actor_id?: string | null
+          amount?: number
+          applied_rules?: Json
+          balance_after?: number | null
+          balance_before?: number | null
+          created_at?: string
+          customer_id: string
+          id?: string
+          note?: string | null
+          points_changed: number
+          reason_code?: string | null
+          reverses_transaction_id?: string | null
+          reward_id?: string | null
+          store_id?: string | null
+          tenant_id?: string
+          terminal_id?: string | null
+          type: string
+        }
+        Update: {
+          actor_id?: string | null
+          amount?: number
+          applied_rules?: Json
+          balance_after?: number | null
+          balance_before?: number | null
+          created_at?: string
+          customer_id?: string
+          id?: string
+          note?: string | null
+          points_changed?: number
+          reason_code?: string | null
+          reverses_transaction_id?: string | null
+          reward_id?: string | null
+          store_id?: string | null
+          tenant_id?: string
+          terminal_id?: string | null
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reason_code_fkey"
+            columns: ["tenant_id", "reason_code"]
+            isOneToOne: false
+            referencedRelation: "adjustment_reasons"
+            referencedColumns: ["tenant_id", "code"]
+          },
+          {
+            foreignKeyName: "transactions_reverses_transaction_id_fkey"
+            columns: ["reverses_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      contactable_customers: {
+        Row: {
+          contact_channel: string | null
+          email: string | null
+          id: string | null
+          name: string | null
+          phone_number: string | null
+          tenant_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      activity_summary: {
+        Args: {
+          from_param: string
+          store_id_param?: string
+          to_param: string
+        }
+        Returns: {
+          active_customers: number
+          new_customers: number
+          outstanding_liability: number
+          outstanding_points: number
+          points_issued: number
+          points_redeemed: number
+          redemption_rate: number | null
+        }[]
+      }
+      adjust_points: {
+        Args: {
+          customer_id_param: string
+          note_param?: string
+          points_param: number
+          reason_code_param: string
+        }
+        Returns: number
+      }
+      calculate_earn: {
+        Args: {
+          amount_param: number
+          category_param: string
+          customer_id_param: string
+        }
+        Returns: {
+          applied_rules: Json
+          points: number
+        }[]
+      }
+      close_liability_period: {
+        Args: {
+          from_param: string
+          to_param: string
+        }
+        Returns: {
+          adjusted_points: number
+          closed_at: string
+          closed_by: string | null
+          closing_liability: number
+          closing_points: number
+          expired_points: number
+          id: string
+          issued_points: number
+          opening_liability: number
+          opening_points: number
+          period_end: string
+          period_start: string
+          point_value: number
+          redeemed_points: number
+          tenant_id: string
+        }
+      }
+      consume_point_lots: {
+        Args: {
+          customer_id_param: string
+          points_param: number
+        }
+        Returns: undefined
+      }
+      current_staff_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_tenant_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      daily_activity: {
+        Args: {
+          from_param: string
+          store_id_param?: string
+          to_param: string
+        }
+        Returns: {
+          active_customers: number
+          day: string
+          new_customers: number
+          points_issued: number
+          points_redeemed: number
+        }[]
+      }
+      earn_points: {
+        Args: {
+          amount_param: number
+          category_param?: string
+          customer_id_param: string
+        }
+        Returns: number
+      }
+      expire_points: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_referral_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      grant_date_bonus: {
+        Args: {
+          customer_id_param: string
+          kind_param: string
+          points_param: number
+          year_param: number
+        }
+        Returns: boolean
+      }
+      grant_date_bonuses: {
+        Args: {
+          date_param?: string
+        }
+        Returns: number
+      }
+      grant_welcome_bonus: {
+        Args: {
+          customer_id_param: string
+        }
+        Returns: number
+      }
+      import_customers: {
+        Args: {
+          file_name_param: string
+          rows_param: Json
+        }
+        Returns: {
+          customer_id: string
+          skipped_reason: string
+          source_row: number
+        }[]
+      }
+      is_anniversary: {
+        Args: {
+          anniversary_param: string
+          date_param: string
+        }
+        Returns: boolean
+      }
+      issued_points: {
+        Args: {
+          points_param: number
+          type_param: string
+        }
+        Returns: number
+      }
+      liability_report: {
+        Args: {
+          from_param: string
+          to_param: string
+        }
+        Returns: {
+          adjusted_points: number
+          closing_liability: number
+          closing_points: number
+          expired_points: number
+          issued_points: number
+          opening_liability: number
+          opening_points: number
+          point_value: number
+          redeemed_points: number
+        }[]
+      }
+      liability_totals: {
+        Args: {
+          from_param: string
+          tenant_id_param: string
+          to_param: string
+        }
+        Returns: {
+          adjusted_points: number
+          closing_points: number
+          expired_points: number
+          issued_points: number
+          opening_points: number
+          redeemed_points: number
+        }[]
+      }
+      list_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          id: string
+          role: string
+        }[]
+      }
+      merge_customers: {
+        Args: {
+          duplicate_id_param: string
+          survivor_id_param: string
+        }
+        Returns: number
+      }
+      normalize_phone: {
+        Args: {
+          country_param?: string
+          phone_param: string
+        }
+        Returns: string
+      }
+      open_point_lot: {
+        Args: {
+          customer_id_param: string
+          points_param: number
+          transaction_id_param: string
+        }
+        Returns: undefined
+      }
+      post_referral_bonus: {
+        Args: {
+          customer_id_param: string
+          note_param: string
+          points_param: number
+        }
+        Returns: string
+      }
+      record_referral: {
+        Args: {
+          referee_id_param: string
+          referral_code_param: string
+        }
+        Returns: string
+      }
+      redeem_points: {
+        Args: {
+          customer_id_param: string
+          reward_id_param: string
+        }
+        Returns: number
+      }
+      refresh_customer_tier: {
+        Args: {
+          customer_id_param: string
+        }
+        Returns: string
+      }
+      refresh_tiers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      request_header: {
+        Args: {
+          name_param: string
+        }
+        Returns: string
+      }
+      request_store_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      require_staff_role: {
+        Args: {
+          roles_param: string[]
+        }
+        Returns: undefined
+      }
+      reverse_transaction: {
+        Args: {
+          amount_param?: number
+          transaction_id_param: string
+        }
+        Returns: number
+      }
+      reward_referral: {
+        Args: {
+          amount_param: number
+          referee_id_param: string
+          transaction_id_param: string
+        }
+        Returns: number
+      }
+      search_customers: {
+        Args: {
+          limit_param?: number
+          query_param: string
+        }
+        Returns: Database["public"]["Tables"]["customers"]["Row"][]
+      }
+      top_customers: {
+        Args: {
+          from_param: string
+          limit_param?: number
+          store_id_param?: string
+          to_param: string
+        }
+        Returns: {
+          amount_spent: number
+          customer_id: string
+          name: string
+          phone_number: string
+          points_earned: number
+          visits: number
+        }[]
+      }
+      upcoming_birthdays: {
+        Args: {
+          days_param?: number
+        }
+        Returns: {
+          birthday: string
+          customer_id: string
+          name: string
+          next_birthday: string
+          phone_number: string
+          turning: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
@@ -0,0 +1,23 @@
+// Calendar dates as YYYY-MM-DD in local time, the format of date inputs and DATE columns
+
+export function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Read a plain date as local midnight so it doesn't shift a day
+export function parseDateInput(date: string): Date {
+  return new Date(`${date}T00:00:00`)
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseDateInput(date)
+  result.setDate(result.getDate() + days)
+  return toDateInput(result)
+}
+
+// Last day of the month the date falls in
+export function endOfMonth(date: string): string {
+  const result = parseDateInput(date)
+  return toDateInput(new Date(result.getFullYear(), result.getMonth() + 1, 0))
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { describeRule, isRuleActive, type EarnRule } from '@/lib/earn-rules'
+
+function rule(overrides: Partial<EarnRule>): EarnRule {
+  return {
+    id: overrides.name ?? 'rule',
+    tenant_id: 'tenant',
+    name: 'Rule',
+    rule_type: 'base_rate',
+    active: true,
+    multiplier: null,
+    bonus_points: null,
+    min_spend: null,
+    category: null,
+    days_of_week: null,
+    birthday_window: null,
+    starts_at: null,
+    ends_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+const now = new Date('2024-03-13T12:00:00Z')
+
+describe('isRuleActive', () => {
+  it('is true for an active rule without dates', () => {
+    expect(isRuleActive(rule({}), now)).toBe(true)
+  })
+
+  it('is false for a switched-off rule', () => {
+    expect(isRuleActive(rule({ active: false }), now)).toBe(false)
+  })
+
+  it('runs from starts_at up to but not including ends_at', () => {
+    expect(isRuleActive(rule({ starts_at: '2024-03-14T00:00:00Z' }), now)).toBe(false)
+    expect(isRuleActive(rule({ starts_at: '2024-03-13T12:00:00Z' }), now)).toBe(true)
+    expect(isRuleActive(rule({ ends_at: '2024-03-13T12:00:00Z' }), now)).toBe(false)
+    expect(isRuleActive(rule({ ends_at: '2024-03-13T12:00:01Z' }), now)).toBe(true)
+  })
+})
+
+describe('describeRule', () => {
+  it('describes base rates', () => {
+    expect(describeRule(rule({ multiplier: 1 }))).toBe('Earn 1 point per $1 spent')
+    expect(describeRule(rule({ multiplier: 2 }))).toBe('Earn 2 points per $1 spent')
+  })
+
+  it('lists the conditions a multiplier needs', () => {
+    expect(describeRule(rule({ rule_type: 'multiplier', multiplier: 2, category: 'coffee', days_of_week: [0, 6] }))).toBe(
+      '2x points on coffee on Sun/Sat'
+    )
+    expect(describeRule(rule({ rule_type: 'multiplier', multiplier: 2, birthday_window: 'month' }))).toBe(
+      '2x points in your birthday month'
+    )
+  })
+
+  it('describes bonuses', () => {
+    expect(describeRule(rule({ rule_type: 'threshold_bonus', bonus_points: 25, min_spend: 50 }))).toBe(
+      '+25 points on purchases of $50 or more'
+    )
+    expect(describeRule(rule({ rule_type: 'first_purchase_bonus', bonus_points: 100, birthday_window: 'day' }))).toBe(
+      '+100 points on first purchase on your birthday'
+    )
+  })
+})
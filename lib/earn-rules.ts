@@ -0,0 +1,36 @@
+import type { Tables } from '@/lib/database.types'
+
+export type EarnRule = Tables<'earn_rules'>
+
+export function isRuleActive(rule: EarnRule, now: Date): boolean {
+  if (!rule.active) return false
+  if (rule.starts_at && new Date(rule.starts_at) > now) return false
+  if (rule.ends_at && new Date(rule.ends_at) <= now) return false
+  return true
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Short human-readable summary for the Add Points form
+export function describeRule(rule: EarnRule): string {
+  const conditions = []
+  if (rule.category) conditions.push(`on ${rule.category}`)
+  if (rule.days_of_week && rule.days_of_week.length > 0) {
+    conditions.push(`on ${rule.days_of_week.map(d => DAY_NAMES[d]).join('/')}`)
+  }
+  if (rule.birthday_window === 'day') conditions.push('on your birthday')
+  if (rule.birthday_window === 'month') conditions.push('in your birthday month')
+  const suffix = conditions.length > 0 ? ` ${conditions.join(' ')}` : ''
+  switch (rule.rule_type) {
+    case 'base_rate':
+      return `Earn ${rule.multiplier} point${rule.multiplier === 1 ? '' : 's'} per $1 spent${suffix}`
+    case 'multiplier':
+      return `${rule.multiplier}x points${suffix}`
+    case 'threshold_bonus':
+      return `+${rule.bonus_points} points on purchases of $${rule.min_spend} or more${suffix}`
+    case 'first_purchase_bonus':
+      return `+${rule.bonus_points} points on first purchase${suffix}`
+    default:
+      return rule.name
+  }
+}
@@ -0,0 +1,20 @@
+export type ContactChannel = 'sms' | 'email'
+
+export const CONTACT_CHANNELS: Record<ContactChannel, string> = {
+  sms: 'Text message',
+  email: 'Email'
+}
+
+// Where marketing consent was captured; matches the check on customers.marketing_consent_source
+export const CONSENT_SOURCES = {
+  in_store: 'In store',
+  paper_form: 'Paper form',
+  online: 'Online',
+  import: 'Import'
+} as const
+
+export type ConsentSource = keyof typeof CONSENT_SOURCES
+
+export function isContactChannel(value: string | null | undefined): value is ContactChannel {
+  return !!value && value in CONTACT_CHANNELS
+}
@@ -0,0 +1,4 @@
+// Dollar amounts with thousands separators and cents, e.g. $1,234.50
+export function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
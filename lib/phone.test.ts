@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { formatPhone, normalizePhone } from '@/lib/phone'
+
+describe('normalizePhone', () => {
+  it('completes local numbers with the default country code', () => {
+    expect(normalizePhone('(555) 123-4567', 'US')).toBe('+15551234567')
+    expect(normalizePhone('07700 900123', 'GB')).toBe('+447700900123')
+    expect(normalizePhone('98 1234 5678', 'NP')).toBe('+9779812345678')
+  })
+
+  it('drops the trunk prefix', () => {
+    expect(normalizePhone('1 555 123 4567', 'US')).toBe('+15551234567')
+    expect(normalizePhone('0412 345 678', 'AU')).toBe('+61412345678')
+  })
+
+  it('reads + and 00 numbers as international', () => {
+    expect(normalizePhone('+44 7700 900123', 'US')).toBe('+447700900123')
+    expect(normalizePhone('0044 7700 900123', 'US')).toBe('+447700900123')
+  })
+
+  it('rejects local numbers of the wrong length', () => {
+    expect(normalizePhone('555-1234', 'US')).toBeNull()
+    expect(normalizePhone('555 123 45678', 'US')).toBeNull()
+  })
+
+  it('rejects international numbers of the wrong length for a known country', () => {
+    expect(normalizePhone('+1 555 123 456', 'US')).toBeNull()
+    expect(normalizePhone('+61 412 345 6789', 'US')).toBeNull()
+  })
+
+  it('holds numbers from other countries to the E.164 limits', () => {
+    expect(normalizePhone('+353 85 123 4567', 'US')).toBe('+353851234567')
+    expect(normalizePhone('+353 1234', 'US')).toBeNull()
+    expect(normalizePhone('+353 8512 3456 7890 12', 'US')).toBeNull()
+  })
+
+  it('rejects text that is not a phone number', () => {
+    expect(normalizePhone('call me', 'US')).toBeNull()
+    expect(normalizePhone('555-123-4567 ext 2', 'US')).toBeNull()
+    expect(normalizePhone('', 'US')).toBeNull()
+  })
+})
+
+describe('formatPhone', () => {
+  it('shows numbers from the tenant country in local form', () => {
+    expect(formatPhone('+15551234567', 'US')).toBe('(555) 123-4567')
+    expect(formatPhone('+447700900123', 'GB')).toBe('0770 090 0123')
+  })
+
+  it('keeps the country code on foreign numbers', () => {
+    expect(formatPhone('+447700900123', 'US')).toBe('+44 770 090 0123')
+  })
+
+  it('returns anything that is not E.164 unchanged', () => {
+    expect(formatPhone('555-1234', 'US')).toBe('555-1234')
+  })
+})
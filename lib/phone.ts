@@ -0,0 +1,98 @@
+// Countries whose local numbers we can complete. Lengths are national
+// significant numbers, i.e. without the country code or trunk prefix.
+export const PHONE_COUNTRIES = {
+  US: { callingCode: '1', lengths: [10], trunkPrefix: '1' },
+  CA: { callingCode: '1', lengths: [10], trunkPrefix: '1' },
+  GB: { callingCode: '44', lengths: [9, 10], trunkPrefix: '0' },
+  AU: { callingCode: '61', lengths: [9], trunkPrefix: '0' },
+  NZ: { callingCode: '64', lengths: [8, 9, 10], trunkPrefix: '0' },
+  IN: { callingCode: '91', lengths: [10], trunkPrefix: '0' },
+  NP: { callingCode: '977', lengths: [8, 10], trunkPrefix: '0' }
+} as const
+
+export type PhoneCountry = keyof typeof PHONE_COUNTRIES
+
+// Used when the tenant has no country configured
+export const DEFAULT_PHONE_COUNTRY: PhoneCountry = 'US'
+
+// E.164 allows at most 15 digits including the country code
+const E164 = /^\+[1-9]\d{7,14}$/
+
+export function isPhoneCountry(country: string | null | undefined): country is PhoneCountry {
+  return !!country && country in PHONE_COUNTRIES
+}
+
+function countryForNumber(digits: string): PhoneCountry | null {
+  // Longest calling code first so +977 is not read as +97...
+  const matches = (Object.keys(PHONE_COUNTRIES) as PhoneCountry[])
+    .filter(country => digits.startsWith(PHONE_COUNTRIES[country].callingCode))
+    .sort((a, b) => PHONE_COUNTRIES[b].callingCode.length - PHONE_COUNTRIES[a].callingCode.length)
+  return matches[0] ?? null
+}
+
+function hasValidLength(country: PhoneCountry, national: string): boolean {
+  return (PHONE_COUNTRIES[country].lengths as readonly number[]).includes(national.length)
+}
+
+/**
+ * Normalize a typed phone number to E.164, e.g. "(555) 123-4567" to "+15551234567".
+ *
+ * Numbers starting with + or 00 are international; anything else is a local
+ * number in defaultCountry, with its trunk prefix dropped. Numbers in the
+ * countries we know are checked for length; others only need to be valid E.164.
+ * Returns null when the input is not a valid phone number.
+ */
+export function normalizePhone(input: string, defaultCountry: PhoneCountry = DEFAULT_PHONE_COUNTRY): string | null {
+  const trimmed = input.trim()
+  if (!/^[+\d\s().-]+$/.test(trimmed)) return null
+  const digits = trimmed.replace(/\D/g, '')
+
+  let e164: string
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    e164 = `+${digits.replace(/^00/, '')}`
+    const country = countryForNumber(e164.slice(1))
+    if (country && !hasValidLength(country, e164.slice(1 + PHONE_COUNTRIES[country].callingCode.length))) {
+      return null
+    }
+  } else {
+    const { callingCode, trunkPrefix, lengths } = PHONE_COUNTRIES[defaultCountry]
+    const national = digits.startsWith(trunkPrefix) && !(lengths as readonly number[]).includes(digits.length)
+      ? digits.slice(trunkPrefix.length)
+      : digits
+    if (!hasValidLength(defaultCountry, national)) return null
+    e164 = `+${callingCode}${national}`
+  }
+
+  return E164.test(e164) ? e164 : null
+}
+
+export function isValidPhone(input: string, defaultCountry: PhoneCountry = DEFAULT_PHONE_COUNTRY): boolean {
+  return normalizePhone(input, defaultCountry) !== null
+}
+
+/**
+ * Format an E.164 number for display. Numbers from the tenant's own country
+ * are shown in local form, e.g. "(555) 123-4567"; others keep the country code.
+ * Anything that is not E.164 (such as rows that could not be migrated) is
+ * returned unchanged.
+ */
+export function formatPhone(phone: string, defaultCountry: PhoneCountry = DEFAULT_PHONE_COUNTRY): string {
+  if (!E164.test(phone)) return phone
+  const country = countryForNumber(phone.slice(1))
+  if (!country) return phone
+
+  const { callingCode, trunkPrefix } = PHONE_COUNTRIES[country]
+  const national = phone.slice(1 + callingCode.length)
+  const isLocal = callingCode === PHONE_COUNTRIES[defaultCountry].callingCode
+
+  if (callingCode === '1' && national.length === 10) {
+    const local = `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`
+    return isLocal ? local : `+1 ${local}`
+  }
+
+  // Split off the last seven digits as 3 + 4, which reads well enough for most countries
+  const grouped = national.length > 7
+    ? `${national.slice(0, -7)} ${national.slice(-7, -4)} ${national.slice(-4)}`
+    : `${national.slice(0, -4)} ${national.slice(-4)}`
+  return isLocal ? `${trunkPrefix}${grouped}` : `+${callingCode} ${grouped}`
+}
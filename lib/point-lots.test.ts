@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { getNextExpiry, type PointLot } from '@/lib/point-lots'
+
+function lot(remaining: number, expiresAt: string | null): PointLot {
+  return {
+    id: `${remaining}-${expiresAt}`,
+    tenant_id: 'tenant',
+    customer_id: 'customer',
+    transaction_id: null,
+    points: remaining,
+    remaining,
+    earned_at: '2024-01-01T00:00:00Z',
+    expires_at: expiresAt
+  }
+}
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+describe('getNextExpiry', () => {
+  it('totals the open lots that expire on the soonest upcoming date', () => {
+    const lots = [
+      lot(30, '2024-09-01T15:00:00Z'),
+      lot(20, '2024-07-01T10:00:00Z'),
+      lot(5, '2024-07-01T11:00:00Z')
+    ]
+    expect(getNextExpiry(lots, now)).toEqual({ points: 25, date: new Date('2024-07-01T10:00:00Z') })
+  })
+
+  it('ignores spent, already expired and never-expiring lots', () => {
+    const lots = [lot(0, '2024-06-10T00:00:00Z'), lot(50, '2024-05-01T00:00:00Z'), lot(70, null), lot(15, '2024-08-01T00:00:00Z')]
+    expect(getNextExpiry(lots, now)).toEqual({ points: 15, date: new Date('2024-08-01T00:00:00Z') })
+  })
+
+  it('is null when nothing is due to expire', () => {
+    expect(getNextExpiry([lot(70, null)], now)).toBeNull()
+  })
+})
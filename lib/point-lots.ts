@@ -0,0 +1,21 @@
+import type { Tables } from '@/lib/database.types'
+
+export type PointLot = Tables<'point_lots'>
+
+export interface UpcomingExpiry {
+  points: number
+  date: Date
+}
+
+// Points on open lots that expire on the soonest upcoming expiry date
+export function getNextExpiry(lots: PointLot[], now: Date): UpcomingExpiry | null {
+  const upcoming = lots
+    .filter(lot => lot.remaining > 0 && lot.expires_at && new Date(lot.expires_at) > now)
+    .sort((a, b) => new Date(a.expires_at!).getTime() - new Date(b.expires_at!).getTime())
+  if (upcoming.length === 0) return null
+  const date = new Date(upcoming[0].expires_at!)
+  const points = upcoming
+    .filter(lot => new Date(lot.expires_at!).toDateString() === date.toDateString())
+    .reduce((sum, lot) => sum + lot.remaining, 0)
+  return { points, date }
+}
@@ -0,0 +1,14 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type AdjustmentReason = Tables<'adjustment_reasons'>
+
+export async function listAdjustmentReasons(): Promise<AdjustmentReason[]> {
+  const { data, error } = await supabase
+    .from('adjustment_reasons')
+    .select('*')
+    .eq('active', true)
+    .order('label', { ascending: true })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,55 @@
+import { supabase } from '@/lib/supabase'
+import type { Database, Tables } from '@/lib/database.types'
+
+export type AuditEntry = Tables<'audit_log'> & {
+  customers: { phone_number: string; name: string | null } | null
+}
+
+export type StaffMember = Database['public']['Functions']['list_staff']['Returns'][number]
+
+export interface AuditFilters {
+  actorId?: string
+  customerId?: string
+  storeId?: string
+  startDate?: string
+  endDate?: string
+}
+
+export async function listAuditEntries(
+  filters: AuditFilters,
+  page: number,
+  pageSize: number
+): Promise<{ entries: AuditEntry[]; count: number }> {
+  let query = supabase
+    .from('audit_log')
+    .select('*, customers(phone_number, name)', { count: 'exact' })
+    .order('occurred_at', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1)
+  if (filters.actorId) {
+    query = query.eq('actor_id', filters.actorId)
+  }
+  if (filters.customerId) {
+    query = query.eq('customer_id', filters.customerId)
+  }
+  if (filters.storeId) {
+    query = query.eq('store_id', filters.storeId)
+  }
+  if (filters.startDate) {
+    query = query.gte('occurred_at', filters.startDate)
+  }
+  if (filters.endDate) {
+    // Add 1 day to end date to make it inclusive
+    const end = new Date(filters.endDate)
+    end.setDate(end.getDate() + 1)
+    query = query.lt('occurred_at', end.toISOString().slice(0, 10))
+  }
+  const { data, count, error } = await query
+  if (error) throw error
+  return { entries: data, count: count ?? 0 }
+}
+
+export async function listStaff(): Promise<StaffMember[]> {
+  const { data, error } = await supabase.rpc('list_staff')
+  if (error) throw error
+  return data
+}
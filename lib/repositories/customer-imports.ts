@@ -0,0 +1,46 @@
+import { supabase } from '@/lib/supabase'
+import type { Database, Json, Tables } from '@/lib/database.types'
+import type { ImportRow } from '@/lib/customer-import'
+
+export type CustomerImport = Tables<'customer_imports'>
+export type ImportResult = Database['public']['Functions']['import_customers']['Returns'][number]
+
+// Phone numbers per lookup, keeping the request URL short
+const PHONE_LOOKUP_BATCH = 200
+
+// Which of these phone numbers already belong to a customer
+export async function listExistingPhoneNumbers(phoneNumbers: string[]): Promise<Set<string>> {
+  const existing = new Set<string>()
+  for (let start = 0; start < phoneNumbers.length; start += PHONE_LOOKUP_BATCH) {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('phone_number')
+      .in('phone_number', phoneNumbers.slice(start, start + PHONE_LOOKUP_BATCH))
+      .is('merged_into_id', null)
+    if (error) throw error
+    data.forEach(customer => existing.add(customer.phone_number))
+  }
+  return existing
+}
+
+// Creates the customers and their opening balances in one transaction; managers
+// only. Returns every row with its new customer or the reason it was skipped.
+export async function importCustomers(fileName: string, rows: ImportRow[]): Promise<ImportResult[]> {
+  const { data, error } = await supabase.rpc('import_customers', {
+    file_name_param: fileName,
+    rows_param: rows as unknown as Json
+  })
+  if (error) throw error
+  return data
+}
+
+// Latest first
+export async function listCustomerImports(limit = 10): Promise<CustomerImport[]> {
+  const { data, error } = await supabase
+    .from('customer_imports')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return data
+}
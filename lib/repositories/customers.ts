@@ -0,0 +1,190 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { ConsentSource, ContactChannel } from '@/lib/messaging'
+
+export type Customer = Tables<'customers'>
+
+export type CustomerSortColumn = 'total_points' | 'created_at' | 'last_visit_at'
+
+export interface CustomerSort {
+  column: CustomerSortColumn
+  ascending: boolean
+}
+
+export interface CustomerFilters {
+  tierId?: string
+  minPoints?: number
+  maxPoints?: number
+}
+
+export async function listCustomers(
+  filters: CustomerFilters,
+  sort: CustomerSort,
+  page: number,
+  pageSize: number
+): Promise<{ customers: Customer[]; count: number }> {
+  let query = supabase
+    .from('customers')
+    .select('*', { count: 'exact' })
+    .is('merged_into_id', null)
+    // Customers who never visited sort last either way
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id')
+    .range((page - 1) * pageSize, page * pageSize - 1)
+  if (filters.tierId) {
+    query = query.eq('tier_id', filters.tierId)
+  }
+  if (filters.minPoints !== undefined) {
+    query = query.gte('total_points', filters.minPoints)
+  }
+  if (filters.maxPoints !== undefined) {
+    query = query.lte('total_points', filters.maxPoints)
+  }
+  const { data, count, error } = await query
+  if (error) throw error
+  return { customers: data, count: count ?? 0 }
+}
+
+export async function getCustomer(id: string): Promise<Customer> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', id)
+    .single()
+  if (error) throw error
+  return data
+}
+
+export async function findCustomerByPhone(phoneNumber: string): Promise<Customer | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('phone_number', phoneNumber)
+    // Merged duplicates keep their old number
+    .is('merged_into_id', null)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+// Partial phone, last four digits, (fuzzy) name or email; best matches first
+export async function searchCustomers(query: string, limit = 10): Promise<Customer[]> {
+  const { data, error } = await supabase.rpc('search_customers', {
+    query_param: query,
+    limit_param: limit
+  })
+  if (error) throw error
+  return data
+}
+
+export interface CustomerChanges {
+  phoneNumber: string
+  name: string | null
+  email: string | null
+  // YYYY-MM-DD
+  birthday: string | null
+  preferredContact: ContactChannel | null
+  notes: string | null
+  marketingConsent: boolean
+  // Required when consent is given; the database stamps the time
+  marketingConsentSource: ConsentSource | null
+}
+
+// Everything but the phone number and name can be left for later
+export type NewCustomer = Pick<CustomerChanges, 'phoneNumber' | 'name'> &
+  Partial<Omit<CustomerChanges, 'phoneNumber' | 'name'>>
+
+export async function createCustomer(customer: NewCustomer): Promise<Customer> {
+  const { data, error } = await supabase
+    .from('customers')
+    .insert([
+      {
+        phone_number: customer.phoneNumber,
+        name: customer.name,
+        email: customer.email ?? null,
+        birthday: customer.birthday ?? null,
+        preferred_contact: customer.preferredContact ?? null,
+        notes: customer.notes ?? null,
+        marketing_consent: customer.marketingConsent ?? false,
+        marketing_consent_source: customer.marketingConsent ? customer.marketingConsentSource : null
+      }
+    ])
+    .select('id')
+    .single()
+  if (error) throw error
+
+  // The welcome bonus is posted after the insert, so read the balance back
+  const { data: created, error: readError } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', data.id)
+    .single()
+  if (readError) throw readError
+  return created
+}
+
+export async function updateCustomer(id: string, changes: CustomerChanges): Promise<Customer> {
+  const { data, error } = await supabase
+    .from('customers')
+    .update({
+      phone_number: changes.phoneNumber,
+      name: changes.name,
+      email: changes.email,
+      birthday: changes.birthday,
+      preferred_contact: changes.preferredContact,
+      notes: changes.notes,
+      marketing_consent: changes.marketingConsent,
+      // Withdrawing consent keeps the record of where it was given
+      ...(changes.marketingConsent ? { marketing_consent_source: changes.marketingConsentSource } : {})
+    })
+    .eq('id', id)
+    .select()
+    .single()
+  if (error) throw error
+  return data
+}
+
+// Moves the duplicate's history and points onto the survivor and leaves the
+// duplicate as a tombstone; managers only. Returns the survivor's new balance.
+export async function mergeCustomers(survivorId: string, duplicateId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('merge_customers', {
+    survivor_id_param: survivorId,
+    duplicate_id_param: duplicateId
+  })
+  if (error) throw error
+  return data
+}
+
+// Balance changes go through stored procedures so the update and the
+// ledger insert are applied together under a row lock. The database works out
+// the points from the earn rules; it fails with 23514 when the purchase earns none.
+export async function earnPoints(customerId: string, amount: number, category?: string | null): Promise<number> {
+  const { data, error } = await supabase.rpc('earn_points', {
+    customer_id_param: customerId,
+    amount_param: amount,
+    category_param: category ?? undefined
+  })
+  if (error) throw error
+  return data
+}
+
+export async function redeemPoints(customerId: string, rewardId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('redeem_points', {
+    customer_id_param: customerId,
+    reward_id_param: rewardId
+  })
+  if (error) throw error
+  return data
+}
+
+// Signed manual adjustment; the server rejects callers without a manager role
+export async function adjustPoints(customerId: string, points: number, reasonCode: string, note: string): Promise<number> {
+  const { data, error } = await supabase.rpc('adjust_points', {
+    customer_id_param: customerId,
+    points_param: points,
+    reason_code_param: reasonCode,
+    note_param: note
+  })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/supabase'
+import type { Database } from '@/lib/database.types'
+
+export type UpcomingBirthday = Database['public']['Functions']['upcoming_birthdays']['Returns'][number]
+
+// Customers with a birthday in the next `days` days, soonest first
+export async function listUpcomingBirthdays(days = 30): Promise<UpcomingBirthday[]> {
+  const { data, error } = await supabase.rpc('upcoming_birthdays', { days_param: days })
+  if (error) throw error
+  return data
+}
+
+export type DailyActivity = Database['public']['Functions']['daily_activity']['Returns'][number]
+export type ActivitySummary = Database['public']['Functions']['activity_summary']['Returns'][number]
+export type TopCustomer = Database['public']['Functions']['top_customers']['Returns'][number]
+
+// Inclusive range of days, YYYY-MM-DD; storeId narrows to one store
+export interface ActivityRange {
+  from: string
+  to: string
+  storeId?: string
+}
+
+function rangeArgs(range: ActivityRange) {
+  return {
+    from_param: range.from,
+    to_param: range.to,
+    store_id_param: range.storeId
+  }
+}
+
+// Points issued and redeemed, active customers and sign-ups for each day of the range
+export async function listDailyActivity(range: ActivityRange): Promise<DailyActivity[]> {
+  const { data, error } = await supabase.rpc('daily_activity', rangeArgs(range))
+  if (error) throw error
+  return data
+}
+
+// Totals for the range, plus today's outstanding balance and its dollar value
+export async function getActivitySummary(range: ActivityRange): Promise<ActivitySummary> {
+  const { data, error } = await supabase.rpc('activity_summary', rangeArgs(range)).single()
+  if (error) throw error
+  return data
+}
+
+// Highest net spend in the range first
+export async function listTopCustomers(range: ActivityRange, limit = 10): Promise<TopCustomer[]> {
+  const { data, error } = await supabase.rpc('top_customers', { ...rangeArgs(range), limit_param: limit })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,13 @@
+import { supabase } from '@/lib/supabase'
+import type { EarnRule } from '@/lib/earn-rules'
+
+// Date windows are checked by the engine so a long-lived page stays correct
+export async function listActiveEarnRules(): Promise<EarnRule[]> {
+  const { data, error } = await supabase
+    .from('earn_rules')
+    .select('*')
+    .eq('active', true)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,14 @@
+export * from './adjustment-reasons'
+export * from './audit'
+export * from './customer-imports'
+export * from './customers'
+export * from './dashboard'
+export * from './earn-rules'
+export * from './liability'
+export * from './point-lots'
+export * from './program-settings'
+export * from './referrals'
+export * from './rewards'
+export * from './stores'
+export * from './tiers'
+export * from './transactions'
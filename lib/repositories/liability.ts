@@ -0,0 +1,33 @@
+import { supabase } from '@/lib/supabase'
+import type { Database, Tables } from '@/lib/database.types'
+
+export type LiabilityPeriod = Tables<'liability_periods'>
+export type LiabilityReport = Database['public']['Functions']['liability_report']['Returns'][number]
+
+// Roll-forward for a period that is still open, from the live ledger; managers only.
+// Dates are YYYY-MM-DD, both inclusive.
+export async function getLiabilityReport(from: string, to: string): Promise<LiabilityReport> {
+  const { data, error } = await supabase
+    .rpc('liability_report', { from_param: from, to_param: to })
+    .single()
+  if (error) throw error
+  return data
+}
+
+// Closed periods, latest first
+export async function listLiabilityPeriods(): Promise<LiabilityPeriod[]> {
+  const { data, error } = await supabase
+    .from('liability_periods')
+    .select('*')
+    .order('period_start', { ascending: false })
+  if (error) throw error
+  return data
+}
+
+// Stores the period's figures for good. Fails with 23514 unless it starts the
+// day after the last closed period, and 55000 while it is still running.
+export async function closeLiabilityPeriod(from: string, to: string): Promise<LiabilityPeriod> {
+  const { data, error } = await supabase.rpc('close_liability_period', { from_param: from, to_param: to })
+  if (error) throw error
+  return data
+}
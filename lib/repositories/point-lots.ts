@@ -0,0 +1,13 @@
+import { supabase } from '@/lib/supabase'
+import type { PointLot } from '@/lib/point-lots'
+
+export async function listOpenPointLots(customerId: string): Promise<PointLot[]> {
+  const { data, error } = await supabase
+    .from('point_lots')
+    .select('*')
+    .eq('customer_id', customerId)
+    .gt('remaining', 0)
+    .order('expires_at', { ascending: true })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,14 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type ProgramSettings = Tables<'program_settings'>
+
+// The current tenant's settings; every tenant has exactly one row
+export async function getProgramSettings(): Promise<ProgramSettings> {
+  const { data, error } = await supabase
+    .from('program_settings')
+    .select('*')
+    .single()
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,26 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type Referral = Tables<'referrals'>
+
+type ReferralParty = Pick<Tables<'customers'>, 'id' | 'name' | 'phone_number'>
+
+// A referral with both customers, as listed on the profile
+export type ReferralWithCustomers = Referral & {
+  referrer: ReferralParty | null
+  referee: ReferralParty | null
+}
+
+// Links a new customer to the friend whose referral code they gave. Both are
+// paid once the new customer makes a qualifying purchase. Fails with
+// 22023 for an unknown code or when referrals are off, 23514 when the two
+// look like the same person, 23505 when already referred, 55000 after a
+// first purchase and 54000 when the friend is over the monthly limit.
+export async function recordReferral(refereeId: string, referralCode: string): Promise<string> {
+  const { data, error } = await supabase.rpc('record_referral', {
+    referee_id_param: refereeId,
+    referral_code_param: referralCode
+  })
+  if (error) throw error
+  return data
+}
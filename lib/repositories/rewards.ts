@@ -0,0 +1,13 @@
+import { supabase } from '@/lib/supabase'
+import type { Reward } from '@/lib/rewards'
+
+// Date windows are checked by isRewardAvailable and again by redeem_points
+export async function listActiveRewards(): Promise<Reward[]> {
+  const { data, error } = await supabase
+    .from('rewards')
+    .select('*')
+    .eq('active', true)
+    .order('points_cost', { ascending: true })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,14 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type Store = Tables<'stores'>
+
+export async function listStores(): Promise<Store[]> {
+  const { data, error } = await supabase
+    .from('stores')
+    .select('*')
+    .eq('active', true)
+    .order('name', { ascending: true })
+  if (error) throw error
+  return data
+}
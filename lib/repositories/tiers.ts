@@ -0,0 +1,11 @@
+import { supabase } from '@/lib/supabase'
+import type { Tier } from '@/lib/tiers'
+
+export async function listTiers(): Promise<Tier[]> {
+  const { data, error } = await supabase
+    .from('tiers')
+    .select('*')
+    .order('min_spend', { ascending: true })
+  if (error) throw error
+  return data
+}
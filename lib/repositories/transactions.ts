@@ -0,0 +1,61 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type Transaction = Tables<'transactions'>
+
+export interface TransactionFilters {
+  startDate?: string
+  endDate?: string
+  storeId?: string
+}
+
+export async function listTransactions(customerId: string, filters: TransactionFilters = {}): Promise<Transaction[]> {
+  let query = supabase
+    .from('transactions')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+  if (filters.storeId) {
+    query = query.eq('store_id', filters.storeId)
+  }
+  if (filters.startDate) {
+    query = query.gte('created_at', filters.startDate)
+  }
+  if (filters.endDate) {
+    // Add 1 day to end date to make it inclusive
+    const end = new Date(filters.endDate)
+    end.setDate(end.getDate() + 1)
+    query = query.lt('created_at', end.toISOString().slice(0, 10))
+  }
+  const { data, error } = await query
+  if (error) throw error
+  return data
+}
+
+// Dollars voided or refunded so far against each of the customer's purchases,
+// by purchase id. Independent of any history filter, since a refund can fall
+// outside the range the purchase is listed in.
+export async function listReversedAmounts(customerId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('reverses_transaction_id, amount')
+    .eq('customer_id', customerId)
+    .not('reverses_transaction_id', 'is', null)
+  if (error) throw error
+  return data.reduce<Record<string, number>>((totals, tx) => {
+    if (tx.reverses_transaction_id) {
+      totals[tx.reverses_transaction_id] = (totals[tx.reverses_transaction_id] ?? 0) + Number(tx.amount)
+    }
+    return totals
+  }, {})
+}
+
+// Omit amount to void the whole purchase; pass a dollar amount for a partial refund
+export async function reverseTransaction(transactionId: string, amount?: number): Promise<number> {
+  const { data, error } = await supabase.rpc('reverse_transaction', {
+    transaction_id_param: transactionId,
+    amount_param: amount
+  })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { canRedeem, describeReward, isRewardAvailable, pointsToDollars, type Reward } from '@/lib/rewards'
+
+function reward(overrides: Partial<Reward>): Reward {
+  return {
+    id: 'reward',
+    tenant_id: 'tenant',
+    name: 'Reward',
+    reward_type: 'fixed_amount',
+    value: 5,
+    item_name: null,
+    points_cost: 100,
+    min_balance: 0,
+    active: true,
+    starts_at: null,
+    ends_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+describe('isRewardAvailable', () => {
+  it('is available while active and within its dates', () => {
+    expect(isRewardAvailable(reward({}), now)).toBe(true)
+    expect(isRewardAvailable(reward({ active: false }), now)).toBe(false)
+    expect(isRewardAvailable(reward({ starts_at: '2024-07-01T00:00:00Z' }), now)).toBe(false)
+    expect(isRewardAvailable(reward({ ends_at: '2024-06-01T12:00:00Z' }), now)).toBe(false)
+  })
+})
+
+describe('canRedeem', () => {
+  it('needs the points cost and the minimum balance', () => {
+    expect(canRedeem(reward({}), 100)).toBe(true)
+    expect(canRedeem(reward({}), 99)).toBe(false)
+    expect(canRedeem(reward({ min_balance: 200 }), 150)).toBe(false)
+  })
+})
+
+describe('describeReward', () => {
+  it('describes each reward type', () => {
+    expect(describeReward(reward({}))).toBe('$5 off')
+    expect(describeReward(reward({ reward_type: 'percent_off', value: 10 }))).toBe('10% off')
+    expect(describeReward(reward({ reward_type: 'free_item', item_name: 'coffee' }))).toBe('Free coffee')
+  })
+})
+
+describe('pointsToDollars', () => {
+  it('values points at the best fixed-amount rate', () => {
+    const rewards = [
+      reward({ value: 5, points_cost: 100 }),
+      reward({ value: 12, points_cost: 200 }),
+      reward({ reward_type: 'percent_off', value: 50, points_cost: 10 })
+    ]
+    expect(pointsToDollars(1000, rewards)).toBe(60)
+  })
+
+  it('is zero without fixed-amount rewards', () => {
+    expect(pointsToDollars(1000, [reward({ reward_type: 'free_item', item_name: 'coffee' })])).toBe(0)
+  })
+})
@@ -0,0 +1,39 @@
+import type { Tables } from '@/lib/database.types'
+
+export type Reward = Tables<'rewards'>
+
+export function isRewardAvailable(reward: Reward, now: Date): boolean {
+  if (!reward.active) return false
+  if (reward.starts_at && new Date(reward.starts_at) > now) return false
+  if (reward.ends_at && new Date(reward.ends_at) <= now) return false
+  return true
+}
+
+// Mirrors the balance check in redeem_points
+export function canRedeem(reward: Reward, balance: number): boolean {
+  return balance >= reward.points_cost && balance >= reward.min_balance
+}
+
+export function describeReward(reward: Reward): string {
+  switch (reward.reward_type) {
+    case 'fixed_amount':
+      return `$${reward.value} off`
+    case 'percent_off':
+      return `${reward.value}% off`
+    case 'free_item':
+      return `Free ${reward.item_name}`
+    default:
+      return reward.name
+  }
+}
+
+/**
+ * Dollar value of a balance at the catalog's best fixed-amount rate.
+ * Returns 0 when the catalog has no fixed-amount rewards.
+ */
+export function pointsToDollars(points: number, rewards: Reward[]): number {
+  const rate = rewards
+    .filter(reward => reward.reward_type === 'fixed_amount' && reward.value)
+    .reduce((best, reward) => Math.max(best, reward.value! / reward.points_cost), 0)
+  return points * rate
+}
@@ -0,0 +1,166 @@
+import { csvDelimiter, parseCsv } from '@/lib/csv'
+
+export interface Spreadsheet {
+  rows: string[][]
+  // Whether numbers are written with a decimal comma, as in semicolon-separated CSV
+  decimalComma: boolean
+}
+
+// Read an uploaded .csv or .xlsx file in the browser as rows of text cells.
+// Only the first worksheet of a workbook is read. Row n of the rows is row
+// n + 1 of the file, blank or not. Cells formatted as dates come back as
+// YYYY-MM-DD; everything else as it is stored, which for workbook numbers
+// means with a decimal point.
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    const text = await file.text()
+    return { rows: parseCsv(text), decimalComma: csvDelimiter(text) === ';' }
+  }
+  if (name.endsWith('.xlsx')) {
+    return { rows: await readWorkbook(await file.arrayBuffer()), decimalComma: false }
+  }
+  throw new Error('Upload a .csv or .xlsx file. Older .xls workbooks need to be saved as .xlsx first.')
+}
+
+// An .xlsx file is a zip archive of XML parts. Entries are either stored or
+// deflated, which the browser can inflate itself.
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer)
+  let end = buffer.byteLength - 22
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--
+  if (end < 0) throw new Error('This file is not a valid .xlsx workbook.')
+
+  const entries = new Map<string, string>()
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = new Uint8Array(buffer, dataStart, compressedSize)
+    if (method === 0) {
+      entries.set(name, new TextDecoder().decode(data))
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      entries.set(name, await new Response(stream).text())
+    }
+  }
+  return entries
+}
+
+function parseXml(xml: string | undefined): Document | null {
+  return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null
+}
+
+// Built-in number formats that show a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+function isDateFormat(code: string): boolean {
+  // Ignore literal text, colours and conditions, e.g. "Day "d or [Red]
+  const stripped = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')
+  return /[dmy]/i.test(stripped)
+}
+
+// Which cell styles (the s attribute on a cell) display a date
+function dateStyles(styles: Document | null): Set<number> {
+  const result = new Set<number>()
+  if (!styles) return result
+  const customFormats = new Map<number, string>()
+  for (const format of Array.from(styles.getElementsByTagName('numFmt'))) {
+    customFormats.set(Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') ?? '')
+  }
+  const cellXfs = styles.getElementsByTagName('cellXfs')[0]
+  if (!cellXfs) return result
+  Array.from(cellXfs.getElementsByTagName('xf')).forEach((xf, index) => {
+    const id = Number(xf.getAttribute('numFmtId'))
+    const custom = customFormats.get(id)
+    if (DATE_FORMAT_IDS.has(id) || (custom !== undefined && isDateFormat(custom))) result.add(index)
+  })
+  return result
+}
+
+// Excel stores dates as days since 30 December 1899, or since 1 January 1904
+// in workbooks made with the 1904 date system
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)
+  return new Date(epoch + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10)
+}
+
+// Text of a shared or inline string, joining rich-text runs and skipping
+// phonetic guides
+function stringText(element: Element): string {
+  return Array.from(element.getElementsByTagName('t'))
+    .filter(t => t.parentElement?.tagName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('')
+}
+
+// Zero-based column index from a cell reference such as "AB12"
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? ''
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+async function readWorkbook(buffer: ArrayBuffer): Promise<string[][]> {
+  const parts = await unzip(buffer)
+  const workbook = parseXml(parts.get('xl/workbook.xml'))
+  if (!workbook) throw new Error('This file is not a valid .xlsx workbook.')
+
+  // The first sheet in the workbook, located through its relationship
+  const sheetId = workbook.getElementsByTagName('sheet')[0]?.getAttribute('r:id')
+  const relationships = parseXml(parts.get('xl/_rels/workbook.xml.rels'))
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') ?? [])
+    .find(relationship => relationship.getAttribute('Id') === sheetId)
+    ?.getAttribute('Target')
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml'
+  const sheet = parseXml(parts.get(sheetPath))
+  if (!sheet) throw new Error('The workbook has no worksheet to import.')
+
+  const sharedStrings = Array.from(parseXml(parts.get('xl/sharedStrings.xml'))?.getElementsByTagName('si') ?? [])
+    .map(stringText)
+  const dates = dateStyles(parseXml(parts.get('xl/styles.xml')))
+  const workbookProperties = workbook.getElementsByTagName('workbookPr')[0]
+  const date1904 = ['1', 'true'].includes(workbookProperties?.getAttribute('date1904') ?? '')
+
+  const rows: string[][] = []
+  for (const row of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowNumber = Number(row.getAttribute('r')) || rows.length + 1
+    const values: string[] = []
+    for (const cell of Array.from(row.getElementsByTagName('c'))) {
+      const reference = cell.getAttribute('r')
+      const index = reference ? columnIndex(reference) : values.length
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? ''
+      let value: string
+      switch (cell.getAttribute('t')) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? ''
+          break
+        case 'inlineStr':
+          value = stringText(cell)
+          break
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE'
+          break
+        case 'e':
+          value = ''
+          break
+        default:
+          value = raw !== '' && dates.has(Number(cell.getAttribute('s'))) ? serialToDate(Number(raw), date1904) : raw
+      }
+      while (values.length < index) values.push('')
+      values[index] = value
+    }
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows[rowNumber - 1] = values
+  }
+  return rows
+}
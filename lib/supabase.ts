@@ -1,6 +1,27 @@
-import { createClient } from '@supabase/supabase-js'
+import { createBrowserClient } from '@supabase/ssr'
+import type { Database } from '@/lib/database.types'
+import { terminalHeaders } from '@/lib/terminal'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey) 
\ No newline at end of file
+// Keeps the staff session in cookies so middleware and server components can read it
+export const supabase = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey, {
+  global: {
+    // Read terminal headers per request so a store change applies immediately
+    fetch: (input, init) => {
+      const headers = new Headers(init?.headers)
+      Object.entries(terminalHeaders()).forEach(([name, value]) => headers.set(name, value))
+      return fetch(input, { ...init, headers })
+    }
+  }
+})
+
+// The Postgres error code of a failed request, such as '23505' for a
+// duplicate; undefined for anything else, such as a network failure
+export function errorCode(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string') {
+    return error.code
+  }
+  return undefined
+}
@@ -0,0 +1,20 @@
+import { cache } from 'react'
+import { headers } from 'next/headers'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { TENANT_HEADER, type Tenant } from '@/lib/tenant'
+
+// The tenant middleware resolved for this request; cached so layout and pages share one lookup
+export const getCurrentTenant = cache(async (): Promise<Tenant | null> => {
+  const slug = (await headers()).get(TENANT_HEADER)
+  if (!slug) return null
+
+  const supabase = await createServerSupabase()
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+})
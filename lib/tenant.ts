@@ -0,0 +1,63 @@
+import type { Tables } from '@/lib/database.types'
+import { DEFAULT_PHONE_COUNTRY, isPhoneCountry, type PhoneCountry } from '@/lib/phone'
+
+export type Tenant = Tables<'tenants'>
+
+// Shown when no tenant could be resolved
+export const DEFAULT_APP_NAME = 'Customer Points Tracker'
+
+// Remembers the tenant picked by subdomain or path so plain links like /audit stay on it
+export const TENANT_COOKIE = 'tenant'
+
+// Set by middleware so server components know which tenant the request is for
+export const TENANT_HEADER = 'x-tenant-slug'
+
+// Path prefix for deployments without wildcard subdomains: /t/<slug>/...
+const TENANT_PATH = /^\/t\/([a-z0-9][a-z0-9-]*)(\/.*)?$/
+
+export interface TenantRoute {
+  slug: string
+  // Path with any /t/<slug> prefix removed
+  pathname: string
+  // True when the slug came from the host or path rather than the cookie or default
+  explicit: boolean
+}
+
+function subdomainSlug(host: string | null): string | null {
+  const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN
+  if (!host || !rootDomain) return null
+  const hostname = host.split(':')[0].toLowerCase()
+  if (!hostname.endsWith(`.${rootDomain}`)) return null
+  const subdomain = hostname.slice(0, -rootDomain.length - 1)
+  return subdomain && subdomain !== 'www' && !subdomain.includes('.') ? subdomain : null
+}
+
+/**
+ * Work out which tenant a request is for.
+ *
+ * A subdomain of NEXT_PUBLIC_ROOT_DOMAIN wins, then a /t/<slug> path prefix,
+ * then the tenant remembered in the cookie, then NEXT_PUBLIC_DEFAULT_TENANT.
+ */
+export function resolveTenantRoute(host: string | null, pathname: string, cookieSlug: string | undefined): TenantRoute {
+  const fromHost = subdomainSlug(host)
+  if (fromHost) {
+    return { slug: fromHost, pathname, explicit: true }
+  }
+
+  const match = pathname.match(TENANT_PATH)
+  if (match) {
+    return { slug: match[1], pathname: match[2] ?? '/', explicit: true }
+  }
+
+  return {
+    slug: cookieSlug || process.env.NEXT_PUBLIC_DEFAULT_TENANT || 'default',
+    pathname,
+    explicit: false
+  }
+}
+
+// Country used to read local phone numbers typed at this tenant's tills
+export function tenantPhoneCountry(tenant: Tenant | null): PhoneCountry {
+  const country = tenant?.default_country
+  return isPhoneCountry(country) ? country : DEFAULT_PHONE_COUNTRY
+}
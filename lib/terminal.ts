@@ -0,0 +1,33 @@
+// Identity of this checkout terminal, sent with every API request so the
+// database can stamp transactions and audit entries (see request_header()).
+
+const TERMINAL_ID_KEY = 'terminal-id'
+const STORE_ID_KEY = 'store-id'
+
+export function getTerminalId(): string | null {
+  if (typeof window === 'undefined') return null
+  let terminalId = window.localStorage.getItem(TERMINAL_ID_KEY)
+  if (!terminalId) {
+    terminalId = crypto.randomUUID()
+    window.localStorage.setItem(TERMINAL_ID_KEY, terminalId)
+  }
+  return terminalId
+}
+
+export function getStoreId(): string | null {
+  if (typeof window === 'undefined') return null
+  return window.localStorage.getItem(STORE_ID_KEY) ?? process.env.NEXT_PUBLIC_STORE_ID ?? null
+}
+
+export function terminalHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {}
+  const terminalId = getTerminalId()
+  const storeId = getStoreId()
+  if (terminalId) headers['x-terminal-id'] = terminalId
+  if (storeId) headers['x-store-id'] = storeId
+  return headers
+}
+
+export function setStoreId(storeId: string) {
+  window.localStorage.setItem(STORE_ID_KEY, storeId)
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { findTier, type Tier } from '@/lib/tiers'
+
+const tiers: Tier[] = [
+  { id: 'silver', tenant_id: 'tenant', name: 'Silver', min_spend: 200, earn_multiplier: 1.25, created_at: '2024-01-01T00:00:00Z' },
+  { id: 'gold', tenant_id: 'tenant', name: 'Gold', min_spend: 500, earn_multiplier: 1.5, created_at: '2024-01-01T00:00:00Z' }
+]
+
+describe('findTier', () => {
+  it('finds the customer tier by id', () => {
+    expect(findTier(tiers, 'gold')?.name).toBe('Gold')
+  })
+
+  it('is null for customers without a tier or with a removed one', () => {
+    expect(findTier(tiers, null)).toBeNull()
+    expect(findTier(tiers, 'platinum')).toBeNull()
+  })
+})
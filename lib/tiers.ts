@@ -0,0 +1,7 @@
+import type { Tables } from '@/lib/database.types'
+
+export type Tier = Tables<'tiers'>
+
+export function findTier(tiers: Tier[], tierId: string | null): Tier | null {
+  return tiers.find(tier => tier.id === tierId) ?? null
+}
@@ -0,0 +1,83 @@
+import { createServerClient } from '@supabase/ssr'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { Database } from '@/lib/database.types'
+import { resolveTenantRoute, TENANT_COOKIE, TENANT_HEADER } from '@/lib/tenant'
+
+// Pages reachable without a staff session
+const PUBLIC_PATHS = ['/login', '/auth']
+
+export async function middleware(request: NextRequest) {
+  const route = resolveTenantRoute(
+    request.headers.get('host'),
+    request.nextUrl.pathname,
+    request.cookies.get(TENANT_COOKIE)?.value
+  )
+
+  // Pass the tenant to server components, serving /t/<slug>/... from the plain route
+  const makeResponse = () => {
+    const headers = new Headers(request.headers)
+    headers.set(TENANT_HEADER, route.slug)
+    if (route.pathname === request.nextUrl.pathname) {
+      return NextResponse.next({ request: { headers } })
+    }
+    const url = request.nextUrl.clone()
+    url.pathname = route.pathname
+    return NextResponse.rewrite(url, { request: { headers } })
+  }
+
+  let response = makeResponse()
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = makeResponse()
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        }
+      }
+    }
+  )
+
+  // Refreshes an expired session and writes the new cookies onto the response
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('id')
+    .eq('slug', route.slug)
+    .maybeSingle()
+
+  if (!tenant) {
+    return new NextResponse('Unknown business', { status: 404 })
+  }
+
+  const { pathname } = route
+  const isPublic = PUBLIC_PATHS.some(path => pathname.startsWith(path))
+  if (!isPublic && (!user || user.app_metadata?.tenant_id !== tenant.id)) {
+    const loginUrl = request.nextUrl.clone()
+    loginUrl.pathname = '/login'
+    loginUrl.search = ''
+    loginUrl.searchParams.set('next', pathname + request.nextUrl.search)
+    // Signed in, but to another business's account
+    if (user) loginUrl.searchParams.set('error', 'tenant')
+    const redirect = NextResponse.redirect(loginUrl)
+    redirect.cookies.set(TENANT_COOKIE, route.slug, { path: '/', sameSite: 'lax' })
+    return redirect
+  }
+
+  if (route.explicit) {
+    response.cookies.set(TENANT_COOKIE, route.slug, { path: '/', sameSite: 'lax' })
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)']
+}
@@ -0,0 +1,62 @@
+-- Manually add (positive points_param) or remove (negative) points with a
+-- reason code. Restricted to managers and admins. Returns the new balance.
+CREATE OR REPLACE FUNCTION adjust_points(
+  customer_id_param UUID,
+  points_param INTEGER,
+  reason_code_param TEXT,
+  note_param TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  balance INTEGER;
+  new_balance INTEGER;
+  allow_negative BOOLEAN;
+  transaction_id UUID;
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  IF points_param = 0 THEN
+    RAISE EXCEPTION 'Adjustment must be non-zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM adjustment_reasons WHERE tenant_id = current_tenant_id() AND code = reason_code_param AND active) THEN
+    RAISE EXCEPTION 'Unknown reason code %', reason_code_param USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT total_points INTO balance
+  FROM customers
+  WHERE id = customer_id_param AND tenant_id = current_tenant_id() AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', customer_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  new_balance := balance + points_param;
+  SELECT allow_negative_balance INTO allow_negative FROM program_settings WHERE tenant_id = current_tenant_id();
+  IF new_balance < 0 AND NOT allow_negative THEN
+    RAISE EXCEPTION 'Adjustment would leave a negative balance: balance %, adjusting %', balance, points_param
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = customer_id_param;
+
+  INSERT INTO transactions (customer_id, type, amount, points_changed, reason_code, note)
+  VALUES (customer_id_param, 'adjust', 0, points_param, reason_code_param, NULLIF(trim(note_param), ''))
+  RETURNING id INTO transaction_id;
+
+  -- Keep lots in step with the positive part of the balance
+  IF points_param > 0 AND new_balance > 0 THEN
+    PERFORM open_point_lot(customer_id_param, transaction_id, LEAST(points_param, new_balance));
+  ELSIF points_param < 0 THEN
+    PERFORM consume_point_lots(customer_id_param, LEAST(-points_param, GREATEST(balance, 0)));
+  END IF;
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION adjust_points(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION adjust_points(UUID, INTEGER, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,121 @@
+-- Points a ledger entry adds to what the program has issued: purchases,
+-- bonuses, referrals and positive adjustments, less voided or refunded
+-- purchases. Redemptions, expiry and deductions are not issuance, nor are
+-- imported opening balances, which the previous scheme issued.
+CREATE OR REPLACE FUNCTION issued_points(type_param TEXT, points_param INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN type_param IN ('add', 'bonus', 'referral', 'void', 'refund') THEN points_param
+    WHEN type_param = 'adjust' AND points_param > 0 THEN points_param
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- One row per day from from_param to to_param inclusive, for the dashboard
+-- charts. With store_id_param, only that store's transactions and customers
+-- whose home store it is are counted. Runs with the caller's rights, so row
+-- level security limits results to their tenant.
+CREATE OR REPLACE FUNCTION daily_activity(from_param DATE, to_param DATE, store_id_param UUID DEFAULT NULL)
+RETURNS TABLE (day DATE, points_issued BIGINT, points_redeemed BIGINT, active_customers BIGINT, new_customers BIGINT) AS $$
+  SELECT days.day::date,
+         COALESCE(activity.points_issued, 0),
+         COALESCE(activity.points_redeemed, 0),
+         COALESCE(activity.active_customers, 0),
+         COALESCE(signups.new_customers, 0)
+  FROM generate_series(from_param, to_param, interval '1 day') AS days(day)
+  LEFT JOIN (
+    SELECT created_at::date AS day,
+           SUM(issued_points(type, points_changed)) AS points_issued,
+           COALESCE(-SUM(points_changed) FILTER (WHERE type = 'redeem'), 0) AS points_redeemed,
+           -- Customers who bought or redeemed something that day
+           COUNT(DISTINCT customer_id) FILTER (WHERE type IN ('add', 'redeem')) AS active_customers
+    FROM transactions
+    WHERE created_at >= from_param AND created_at < to_param + 1
+      AND (store_id_param IS NULL OR store_id = store_id_param)
+    GROUP BY 1
+  ) activity ON activity.day = days.day
+  LEFT JOIN (
+    SELECT created_at::date AS day, COUNT(*) AS new_customers
+    FROM customers
+    WHERE created_at >= from_param AND created_at < to_param + 1
+      AND merged_into_id IS NULL
+      AND (store_id_param IS NULL OR home_store_id = store_id_param)
+    GROUP BY 1
+  ) signups ON signups.day = days.day
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Headline figures for the same range and store. Active customers are
+-- counted once however many days they visited. The outstanding balance is
+-- today's, whatever the range, valued at the tenant's point_value.
+CREATE OR REPLACE FUNCTION activity_summary(from_param DATE, to_param DATE, store_id_param UUID DEFAULT NULL)
+RETURNS TABLE (
+  points_issued BIGINT,
+  points_redeemed BIGINT,
+  redemption_rate NUMERIC,
+  active_customers BIGINT,
+  new_customers BIGINT,
+  outstanding_points BIGINT,
+  outstanding_liability NUMERIC
+) AS $$
+  SELECT daily.points_issued,
+         daily.points_redeemed,
+         ROUND(daily.points_redeemed::NUMERIC / NULLIF(daily.points_issued, 0), 4),
+         active.customers,
+         daily.new_customers,
+         balances.points,
+         ROUND(balances.points * settings.point_value, 2)
+  FROM (
+    SELECT COALESCE(SUM(points_issued), 0)::BIGINT AS points_issued,
+           COALESCE(SUM(points_redeemed), 0)::BIGINT AS points_redeemed,
+           COALESCE(SUM(new_customers), 0)::BIGINT AS new_customers
+    FROM daily_activity(from_param, to_param, store_id_param)
+  ) daily
+  CROSS JOIN (
+    SELECT COUNT(DISTINCT customer_id) AS customers
+    FROM transactions
+    WHERE created_at >= from_param AND created_at < to_param + 1
+      AND type IN ('add', 'redeem')
+      AND (store_id_param IS NULL OR store_id = store_id_param)
+  ) active
+  CROSS JOIN (
+    -- Negative balances are owed to the merchant, not by it
+    SELECT COALESCE(SUM(GREATEST(total_points, 0)), 0)::BIGINT AS points
+    FROM customers
+    WHERE merged_into_id IS NULL
+      AND (store_id_param IS NULL OR home_store_id = store_id_param)
+  ) balances
+  CROSS JOIN (
+    SELECT point_value FROM program_settings WHERE tenant_id = current_tenant_id()
+  ) settings;
+$$ LANGUAGE sql STABLE;
+
+-- Biggest spenders in the range, net of voids and refunds
+CREATE OR REPLACE FUNCTION top_customers(
+  from_param DATE,
+  to_param DATE,
+  store_id_param UUID DEFAULT NULL,
+  limit_param INTEGER DEFAULT 10
+)
+RETURNS TABLE (customer_id UUID, name TEXT, phone_number TEXT, amount_spent NUMERIC, points_earned BIGINT, visits BIGINT) AS $$
+  SELECT c.id, c.name, c.phone_number,
+         COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'add'), 0)
+           - COALESCE(SUM(t.amount) FILTER (WHERE t.type IN ('void', 'refund')), 0),
+         SUM(issued_points(t.type, t.points_changed)),
+         COUNT(*) FILTER (WHERE t.type IN ('add', 'redeem'))
+  FROM transactions t
+  JOIN customers c ON c.id = t.customer_id
+  WHERE t.created_at >= from_param AND t.created_at < to_param + 1
+    AND (store_id_param IS NULL OR t.store_id = store_id_param)
+  GROUP BY c.id
+  HAVING COUNT(*) FILTER (WHERE t.type = 'add') > 0
+  ORDER BY 4 DESC, 5 DESC
+  LIMIT limit_param;
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION daily_activity(DATE, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION daily_activity(DATE, DATE, UUID) TO authenticated;
+REVOKE ALL ON FUNCTION activity_summary(DATE, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION activity_summary(DATE, DATE, UUID) TO authenticated;
+REVOKE ALL ON FUNCTION top_customers(DATE, DATE, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION top_customers(DATE, DATE, UUID, INTEGER) TO authenticated;
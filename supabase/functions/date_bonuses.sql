@@ -0,0 +1,163 @@
+-- Whether date_param is the yearly occurrence of anniversary_param. A 29
+-- February date falls on 28 February in other years.
+CREATE OR REPLACE FUNCTION is_anniversary(anniversary_param DATE, date_param DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXTRACT(MONTH FROM anniversary_param) = EXTRACT(MONTH FROM date_param)
+     AND (
+       EXTRACT(DAY FROM anniversary_param) = EXTRACT(DAY FROM date_param)
+       OR (
+         to_char(anniversary_param, 'MM-DD') = '02-29'
+         AND to_char(date_param, 'MM-DD') = '02-28'
+         AND EXTRACT(DAY FROM (date_trunc('year', date_param) + interval '2 months' - interval '1 day')) = 28
+       )
+     );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Post one bonus to a customer unless they already had this kind of bonus
+-- this year. Returns true when the bonus was granted.
+CREATE OR REPLACE FUNCTION grant_date_bonus(customer_id_param UUID, kind_param TEXT, points_param INTEGER, year_param INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+  new_balance INTEGER;
+  transaction_id UUID;
+BEGIN
+  SELECT total_points INTO new_balance
+  FROM customers
+  WHERE id = customer_id_param AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND OR EXISTS (
+    SELECT 1 FROM bonus_grants
+    WHERE customer_id = customer_id_param AND kind = kind_param AND year = year_param
+  ) THEN
+    RETURN false;
+  END IF;
+
+  new_balance := new_balance + points_param;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = customer_id_param;
+
+  INSERT INTO transactions (customer_id, type, amount, points_changed, note)
+  VALUES (customer_id_param, 'bonus', 0, points_param, initcap(kind_param) || ' bonus')
+  RETURNING id INTO transaction_id;
+
+  IF new_balance > 0 THEN
+    PERFORM open_point_lot(customer_id_param, transaction_id, LEAST(points_param, new_balance));
+  END IF;
+
+  INSERT INTO bonus_grants (customer_id, kind, year, tenant_id, transaction_id)
+  SELECT customer_id_param, kind_param, year_param, tenant_id, transaction_id
+  FROM customers
+  WHERE id = customer_id_param;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduled job: grant each tenant's configured birthday and sign-up
+-- anniversary bonuses for date_param (today by default). Safe to rerun; each
+-- customer gets each kind of bonus at most once a year. Returns the number of
+-- bonuses granted.
+CREATE OR REPLACE FUNCTION grant_date_bonuses(date_param DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  due RECORD;
+  granted INTEGER := 0;
+BEGIN
+  FOR due IN
+    SELECT c.id, 'birthday' AS kind, s.birthday_bonus_points AS points
+    FROM customers c
+    JOIN program_settings s ON s.tenant_id = c.tenant_id
+    WHERE s.birthday_bonus_points IS NOT NULL
+      AND c.merged_into_id IS NULL
+      AND c.birthday IS NOT NULL
+      AND is_anniversary(c.birthday, date_param)
+    UNION ALL
+    -- Anniversaries start a full year after sign-up
+    SELECT c.id, 'anniversary', s.anniversary_bonus_points
+    FROM customers c
+    JOIN program_settings s ON s.tenant_id = c.tenant_id
+    WHERE s.anniversary_bonus_points IS NOT NULL
+      AND c.merged_into_id IS NULL
+      AND is_anniversary(c.created_at::date, date_param)
+      AND EXTRACT(YEAR FROM date_param) > EXTRACT(YEAR FROM c.created_at)
+  LOOP
+    IF grant_date_bonus(due.id, due.kind, due.points, EXTRACT(YEAR FROM date_param)::INTEGER) THEN
+      granted := granted + 1;
+    END IF;
+  END LOOP;
+  RETURN granted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Post the tenant's welcome bonus to a new customer. Called when the
+-- customer is created, or from earn_points when the bonus waits for a first
+-- purchase, in which case that purchase must fall within the configured
+-- number of days of sign-up. Returns the points granted.
+CREATE OR REPLACE FUNCTION grant_welcome_bonus(customer_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  points INTEGER;
+  days INTEGER;
+  signed_up_at TIMESTAMP WITH TIME ZONE;
+  imported BOOLEAN;
+BEGIN
+  SELECT s.welcome_bonus_points, s.welcome_bonus_days, c.created_at, c.import_id IS NOT NULL
+  INTO points, days, signed_up_at, imported
+  FROM customers c
+  JOIN program_settings s ON s.tenant_id = c.tenant_id
+  WHERE c.id = customer_id_param;
+
+  -- Imported customers were already members of the old scheme
+  IF points IS NULL OR imported OR now() > signed_up_at + make_interval(days => COALESCE(days, 0)) THEN
+    RETURN 0;
+  END IF;
+
+  -- A held-back bonus comes with the first purchase only
+  IF days IS NOT NULL AND (
+    SELECT COUNT(*) FROM transactions WHERE customer_id = customer_id_param AND type = 'add'
+  ) <> 1 THEN
+    RETURN 0;
+  END IF;
+
+  IF grant_date_bonus(customer_id_param, 'welcome', points, EXTRACT(YEAR FROM signed_up_at)::INTEGER) THEN
+    RETURN points;
+  END IF;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Customers whose birthday falls in the next days_param days, soonest first,
+-- for the dashboard. Runs with the caller's rights, so row level security
+-- limits results to their tenant.
+CREATE OR REPLACE FUNCTION upcoming_birthdays(days_param INTEGER DEFAULT 30)
+RETURNS TABLE (customer_id UUID, name TEXT, phone_number TEXT, birthday DATE, next_birthday DATE, turning INTEGER) AS $$
+  SELECT c.id, c.name, c.phone_number, c.birthday, upcoming.next_birthday,
+         (EXTRACT(YEAR FROM upcoming.next_birthday) - EXTRACT(YEAR FROM c.birthday))::INTEGER
+  FROM customers c
+  -- Adding whole years keeps 29 February birthdays on 28 February, as is_anniversary() does
+  CROSS JOIN LATERAL (
+    SELECT EXTRACT(YEAR FROM age(CURRENT_DATE, c.birthday))::INTEGER AS years
+  ) age
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN (c.birthday + make_interval(years => age.years))::date = CURRENT_DATE THEN CURRENT_DATE
+      ELSE (c.birthday + make_interval(years => age.years + 1))::date
+    END AS next_birthday
+  ) upcoming
+  WHERE c.birthday IS NOT NULL
+    AND c.birthday <= CURRENT_DATE
+    AND c.merged_into_id IS NULL
+    AND upcoming.next_birthday <= CURRENT_DATE + days_param
+  ORDER BY upcoming.next_birthday, c.name;
+$$ LANGUAGE sql STABLE;
+
+-- Internal helpers and scheduled job; not callable through the API
+REVOKE ALL ON FUNCTION grant_date_bonus(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION grant_date_bonuses(DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION grant_welcome_bonus(UUID) FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION upcoming_birthdays(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION upcoming_birthdays(INTEGER) TO authenticated;
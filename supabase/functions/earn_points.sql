@@ -0,0 +1,171 @@
+-- Replace earlier signatures that took the points from the terminal
+DROP FUNCTION IF EXISTS earn_points(UUID, NUMERIC, INTEGER);
+DROP FUNCTION IF EXISTS earn_points(UUID, NUMERIC, INTEGER, JSONB);
+DROP FUNCTION IF EXISTS earn_rule_applies(earn_rules, TEXT, DATE);
+
+-- Whether an earn rule applies to a purchase at local_now_param, the time on
+-- the tenant's clock, so weekdays and birthdays follow its time zone.
+CREATE OR REPLACE FUNCTION earn_rule_applies(rule_param earn_rules, category_param TEXT, birthday_param DATE, local_now_param TIMESTAMP)
+RETURNS BOOLEAN AS $$
+  SELECT rule_param.active
+     AND (rule_param.starts_at IS NULL OR rule_param.starts_at <= now())
+     AND (rule_param.ends_at IS NULL OR rule_param.ends_at > now())
+     AND (rule_param.category IS NULL OR rule_param.category = category_param)
+     AND (
+       COALESCE(cardinality(rule_param.days_of_week), 0) = 0
+       OR EXTRACT(DOW FROM local_now_param)::SMALLINT = ANY (rule_param.days_of_week)
+     )
+     AND CASE rule_param.birthday_window
+       WHEN 'day' THEN birthday_param IS NOT NULL AND is_anniversary(birthday_param, local_now_param::DATE)
+       WHEN 'month' THEN birthday_param IS NOT NULL AND EXTRACT(MONTH FROM birthday_param) = EXTRACT(MONTH FROM local_now_param)
+       ELSE true
+     END;
+$$ LANGUAGE sql STABLE;
+
+-- The points a purchase earns come from the tenant's rules and the
+-- customer's tier, never from the terminal.
+CREATE OR REPLACE FUNCTION calculate_earn(customer_id_param UUID, amount_param NUMERIC, category_param TEXT)
+RETURNS TABLE (points INTEGER, applied_rules JSONB) AS $$
+DECLARE
+  customer customers%ROWTYPE;
+  customer_tier tiers%ROWTYPE;
+  rule earn_rules%ROWTYPE;
+  first_purchase BOOLEAN;
+  local_now TIMESTAMP;
+  base_points INTEGER;
+  extra INTEGER;
+BEGIN
+  SELECT * INTO customer FROM customers WHERE id = customer_id_param;
+  SELECT now() AT TIME ZONE time_zone INTO local_now FROM tenants WHERE id = customer.tenant_id;
+  first_purchase := NOT EXISTS (SELECT 1 FROM transactions WHERE customer_id = customer_id_param AND type = 'add');
+  applied_rules := '[]'::jsonb;
+
+  -- Best base rate, or one point per dollar without one
+  SELECT * INTO rule
+  FROM earn_rules r
+  WHERE r.tenant_id = customer.tenant_id AND r.rule_type = 'base_rate'
+    AND earn_rule_applies(r, category_param, customer.birthday, local_now)
+  ORDER BY r.multiplier DESC, r.created_at
+  LIMIT 1;
+
+  base_points := floor(amount_param * COALESCE(rule.multiplier, 1));
+  points := base_points;
+  IF rule.id IS NOT NULL THEN
+    applied_rules := applied_rules || jsonb_build_object('rule_id', rule.id, 'name', rule.name, 'points', base_points);
+  END IF;
+
+  -- Only the highest multiplier, applied to the base points
+  rule := NULL;
+  SELECT * INTO rule
+  FROM earn_rules r
+  WHERE r.tenant_id = customer.tenant_id AND r.rule_type = 'multiplier'
+    AND earn_rule_applies(r, category_param, customer.birthday, local_now)
+  ORDER BY r.multiplier DESC, r.created_at
+  LIMIT 1;
+
+  IF rule.id IS NOT NULL THEN
+    extra := floor(base_points * rule.multiplier) - base_points;
+    IF extra > 0 THEN
+      points := points + extra;
+      applied_rules := applied_rules || jsonb_build_object('rule_id', rule.id, 'name', rule.name, 'points', extra);
+    END IF;
+  END IF;
+
+  -- The tier scales everything so far, but not the flat bonuses below
+  SELECT * INTO customer_tier FROM tiers WHERE id = customer.tier_id;
+  IF customer_tier.earn_multiplier > 1 THEN
+    extra := floor(points * customer_tier.earn_multiplier) - points;
+    IF extra > 0 THEN
+      points := points + extra;
+      applied_rules := applied_rules || jsonb_build_object('rule_id', customer_tier.id, 'name', customer_tier.name || ' tier', 'points', extra);
+    END IF;
+  END IF;
+
+  FOR rule IN
+    SELECT *
+    FROM earn_rules r
+    WHERE r.tenant_id = customer.tenant_id
+      AND (
+        (r.rule_type = 'threshold_bonus' AND amount_param >= r.min_spend)
+        OR (r.rule_type = 'first_purchase_bonus' AND first_purchase)
+      )
+      AND earn_rule_applies(r, category_param, customer.birthday, local_now)
+    ORDER BY r.created_at
+  LOOP
+    points := points + rule.bonus_points;
+    applied_rules := applied_rules || jsonb_build_object('rule_id', rule.id, 'name', rule.name, 'points', rule.bonus_points);
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Credit points for a purchase and record the ledger entry in one
+-- transaction. The points are worked out here by calculate_earn().
+CREATE OR REPLACE FUNCTION earn_points(
+  customer_id_param UUID,
+  amount_param NUMERIC,
+  category_param TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_balance INTEGER;
+  earned RECORD;
+  transaction_id UUID;
+BEGIN
+  PERFORM require_staff_role('cashier', 'manager', 'admin');
+
+  IF amount_param IS NULL OR amount_param <= 0 THEN
+    RAISE EXCEPTION 'Purchase amount must be positive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock the customer row so concurrent terminals serialize on the balance
+  SELECT total_points INTO new_balance
+  FROM customers
+  WHERE id = customer_id_param AND tenant_id = current_tenant_id() AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', customer_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO earned FROM calculate_earn(customer_id_param, amount_param, NULLIF(trim(category_param), ''));
+  IF earned.points <= 0 THEN
+    RAISE EXCEPTION 'This purchase does not earn any points' USING ERRCODE = 'check_violation';
+  END IF;
+
+  new_balance := new_balance + earned.points;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = customer_id_param;
+
+  INSERT INTO transactions (customer_id, type, amount, points_changed, applied_rules)
+  VALUES (customer_id_param, 'add', amount_param, earned.points, earned.applied_rules)
+  RETURNING id INTO transaction_id;
+
+  -- Points that pay off a negative balance do not open a lot
+  IF new_balance > 0 THEN
+    PERFORM open_point_lot(customer_id_param, transaction_id, LEAST(earned.points, new_balance));
+  END IF;
+
+  -- A referred customer's first qualifying purchase pays both sides
+  new_balance := new_balance + reward_referral(customer_id_param, transaction_id, amount_param);
+
+  -- A welcome bonus held back for the first purchase is paid with it
+  new_balance := new_balance + grant_welcome_bonus(customer_id_param);
+
+  -- The purchase may lift the customer into a higher tier
+  PERFORM refresh_customer_tier(customer_id_param);
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Callable by signed-in staff only; the function checks the role itself
+REVOKE ALL ON FUNCTION earn_points(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION earn_points(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Internal helpers; not callable through the API
+REVOKE ALL ON FUNCTION earn_rule_applies(earn_rules, TEXT, DATE, TIMESTAMP) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION calculate_earn(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,128 @@
+-- Create customers in bulk from an import file, in one transaction.
+-- rows_param is a JSON array of objects with source_row (the line in the
+-- file), phone_number in E.164, and optionally name, email, birthday,
+-- member_since (YYYY-MM-DD), points and marketing_consent; the client maps
+-- and validates the file first. Opening balances are posted as 'import'
+-- transactions. A row whose phone number is already a customer's, including
+-- one created earlier in the same file, is skipped rather than failing the
+-- import, as is a row the database rejects, such as an email that fails the
+-- customers check or a balance too large to store. Restricted to managers
+-- and admins. Returns every row with the customer it created or the reason
+-- it was skipped.
+CREATE OR REPLACE FUNCTION import_customers(file_name_param TEXT, rows_param JSONB)
+RETURNS TABLE (source_row INTEGER, customer_id UUID, skipped_reason TEXT) AS $$
+DECLARE
+  max_rows CONSTANT INTEGER := 5000;
+  batch_id UUID;
+  entry JSONB;
+  opening_points INTEGER;
+  new_customer_id UUID;
+  transaction_id UUID;
+  created_count INTEGER := 0;
+  skipped_count INTEGER := 0;
+  points_total BIGINT := 0;
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  IF jsonb_typeof(rows_param) IS DISTINCT FROM 'array' OR jsonb_array_length(rows_param) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF jsonb_array_length(rows_param) > max_rows THEN
+    RAISE EXCEPTION 'An import can have at most % rows', max_rows USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  INSERT INTO customer_imports (file_name, imported_by)
+  VALUES (COALESCE(NULLIF(trim(file_name_param), ''), 'Untitled'), auth.uid())
+  RETURNING id INTO batch_id;
+
+  FOR entry IN SELECT value FROM jsonb_array_elements(rows_param) LOOP
+    source_row := (entry ->> 'source_row')::INTEGER;
+    customer_id := NULL;
+    skipped_reason := NULL;
+    new_customer_id := NULL;
+
+    -- Each row in its own block, so one the database rejects is skipped with
+    -- the reason and the rows around it are still imported
+    BEGIN
+      opening_points := COALESCE((entry ->> 'points')::INTEGER, 0);
+
+      IF COALESCE(entry ->> 'phone_number', '') !~ '^\+[1-9][0-9]{7,14}$' THEN
+        skipped_reason := 'Invalid phone number';
+      ELSIF opening_points < 0 THEN
+        skipped_reason := 'Points cannot be negative';
+      ELSE
+        INSERT INTO customers (
+          phone_number, name, email, birthday, created_at,
+          marketing_consent, marketing_consent_source, import_id
+        )
+        VALUES (
+          entry ->> 'phone_number',
+          NULLIF(trim(entry ->> 'name'), ''),
+          NULLIF(trim(entry ->> 'email'), ''),
+          (entry ->> 'birthday')::DATE,
+          COALESCE((entry ->> 'member_since')::DATE, now()),
+          COALESCE((entry ->> 'marketing_consent')::BOOLEAN, false),
+          CASE WHEN (entry ->> 'marketing_consent')::BOOLEAN THEN 'import' END,
+          batch_id
+        )
+        ON CONFLICT (tenant_id, phone_number) WHERE merged_into_id IS NULL DO NOTHING
+        RETURNING id INTO new_customer_id;
+
+        IF new_customer_id IS NULL THEN
+          skipped_reason := 'Already a customer';
+        ELSIF opening_points > 0 THEN
+          UPDATE customers
+          SET total_points = opening_points
+          WHERE id = new_customer_id;
+
+          INSERT INTO transactions (customer_id, type, amount, points_changed, note)
+          VALUES (new_customer_id, 'import', 0, opening_points, 'Opening balance')
+          RETURNING id INTO transaction_id;
+
+          -- Carried-over points expire like any others, counted from today
+          PERFORM open_point_lot(new_customer_id, transaction_id, opening_points);
+        END IF;
+      END IF;
+    EXCEPTION
+      WHEN numeric_value_out_of_range THEN
+        skipped_reason := 'Points balance is too large';
+      WHEN check_violation THEN
+        skipped_reason := CASE WHEN SQLERRM LIKE '%customers_email_check%' THEN 'Invalid email' ELSE SQLERRM END;
+      WHEN OTHERS THEN
+        skipped_reason := SQLERRM;
+    END;
+
+    IF skipped_reason IS NULL THEN
+      customer_id := new_customer_id;
+      created_count := created_count + 1;
+      points_total := points_total + opening_points;
+    ELSE
+      skipped_count := skipped_count + 1;
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+
+  UPDATE customer_imports
+  SET customers_created = created_count,
+      rows_skipped = skipped_count,
+      points_imported = points_total
+  WHERE id = batch_id;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, details)
+  VALUES (
+    current_tenant_id(), auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    'customer_import',
+    jsonb_build_object(
+      'import_id', batch_id,
+      'file_name', file_name_param,
+      'customers_created', created_count,
+      'rows_skipped', skipped_count,
+      'points_imported', points_total
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION import_customers(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_customers(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,131 @@
+-- Points liability roll-forward for one tenant over from_param to to_param
+-- inclusive, from the ledger: opening balance, movements by kind, closing
+-- balance. Issued covers purchases net of voids and refunds, bonuses and
+-- referrals; adjusted is the net of manual adjustments and of opening
+-- balances imported from a previous scheme.
+CREATE OR REPLACE FUNCTION liability_totals(tenant_id_param UUID, from_param DATE, to_param DATE)
+RETURNS TABLE (
+  opening_points BIGINT,
+  issued_points BIGINT,
+  redeemed_points BIGINT,
+  expired_points BIGINT,
+  adjusted_points BIGINT,
+  closing_points BIGINT
+) AS $$
+  SELECT opening.points,
+         movements.issued,
+         movements.redeemed,
+         movements.expired,
+         movements.adjusted,
+         opening.points + movements.issued - movements.redeemed - movements.expired + movements.adjusted
+  FROM (
+    SELECT COALESCE(SUM(points_changed), 0)::BIGINT AS points
+    FROM transactions
+    WHERE tenant_id = tenant_id_param AND created_at < from_param
+  ) opening
+  CROSS JOIN (
+    SELECT COALESCE(SUM(points_changed) FILTER (WHERE type IN ('add', 'bonus', 'referral', 'void', 'refund')), 0)::BIGINT AS issued,
+           COALESCE(-SUM(points_changed) FILTER (WHERE type = 'redeem'), 0)::BIGINT AS redeemed,
+           COALESCE(-SUM(points_changed) FILTER (WHERE type = 'expire'), 0)::BIGINT AS expired,
+           COALESCE(SUM(points_changed) FILTER (WHERE type IN ('adjust', 'import')), 0)::BIGINT AS adjusted
+    FROM transactions
+    WHERE tenant_id = tenant_id_param
+      AND created_at >= from_param AND created_at < to_param + 1
+  ) movements;
+$$ LANGUAGE sql STABLE;
+
+-- Preview of a period that has not been closed, valued at today's point
+-- value. Managers and admins only.
+CREATE OR REPLACE FUNCTION liability_report(from_param DATE, to_param DATE)
+RETURNS TABLE (
+  opening_points BIGINT,
+  issued_points BIGINT,
+  redeemed_points BIGINT,
+  expired_points BIGINT,
+  adjusted_points BIGINT,
+  closing_points BIGINT,
+  point_value NUMERIC,
+  opening_liability NUMERIC,
+  closing_liability NUMERIC
+) AS $$
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  IF to_param < from_param THEN
+    RAISE EXCEPTION 'Period ends before it starts' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  SELECT totals.*, settings.point_value,
+         ROUND(totals.opening_points * settings.point_value, 2),
+         ROUND(totals.closing_points * settings.point_value, 2)
+  FROM liability_totals(current_tenant_id(), from_param, to_param) totals
+  CROSS JOIN program_settings settings
+  WHERE settings.tenant_id = current_tenant_id();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close a period and store its figures. Periods must be over, follow the
+-- last closed period without a gap, and can be closed only once.
+CREATE OR REPLACE FUNCTION close_liability_period(from_param DATE, to_param DATE)
+RETURNS liability_periods AS $$
+DECLARE
+  last_end DATE;
+  period liability_periods%ROWTYPE;
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  IF to_param < from_param THEN
+    RAISE EXCEPTION 'Period ends before it starts' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF to_param >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Period ending % is not over yet', to_param USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  -- Serialize closes for the tenant so two managers cannot close overlapping periods
+  PERFORM pg_advisory_xact_lock(hashtext('liability_periods:' || current_tenant_id()::text));
+
+  SELECT MAX(period_end) INTO last_end
+  FROM liability_periods
+  WHERE tenant_id = current_tenant_id();
+
+  IF last_end IS NOT NULL AND from_param <> last_end + 1 THEN
+    RAISE EXCEPTION 'The next period must start on %', last_end + 1 USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO liability_periods (
+    tenant_id, period_start, period_end,
+    opening_points, issued_points, redeemed_points, expired_points, adjusted_points, closing_points,
+    point_value, opening_liability, closing_liability, closed_by
+  )
+  SELECT current_tenant_id(), from_param, to_param,
+         report.opening_points, report.issued_points, report.redeemed_points,
+         report.expired_points, report.adjusted_points, report.closing_points,
+         report.point_value, report.opening_liability, report.closing_liability, auth.uid()
+  FROM liability_report(from_param, to_param) report
+  RETURNING * INTO period;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, details)
+  VALUES (
+    period.tenant_id, auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    'period_close',
+    jsonb_build_object(
+      'period_start', period.period_start,
+      'period_end', period.period_end,
+      'closing_points', period.closing_points,
+      'closing_liability', period.closing_liability
+    )
+  );
+
+  RETURN period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION liability_report(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION liability_report(DATE, DATE) TO authenticated;
+REVOKE ALL ON FUNCTION close_liability_period(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_liability_period(DATE, DATE) TO authenticated;
+
+-- Internal helper; reads any tenant's ledger
+REVOKE ALL ON FUNCTION liability_totals(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
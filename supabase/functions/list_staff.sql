@@ -0,0 +1,18 @@
+-- Staff accounts of the caller's tenant with their roles, for naming actors in
+-- the audit log. Admins only.
+CREATE OR REPLACE FUNCTION list_staff()
+RETURNS TABLE (id UUID, email TEXT, role TEXT) AS $$
+BEGIN
+  PERFORM require_staff_role('admin');
+
+  RETURN QUERY
+  SELECT u.id, u.email::TEXT, u.raw_app_meta_data ->> 'role'
+  FROM auth.users u
+  WHERE u.raw_app_meta_data ? 'role'
+    AND u.raw_app_meta_data ->> 'tenant_id' = current_tenant_id()::TEXT
+  ORDER BY u.email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION list_staff() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_staff() TO authenticated;
@@ -0,0 +1,110 @@
+-- Fold a duplicate customer into the survivor: the duplicate's transactions
+-- and point lots move across, the balances are summed, profile details the
+-- survivor lacks are copied over and the duplicate is left as a tombstone
+-- pointing at the survivor. Marketing consent is not carried over.
+-- Restricted to managers and admins. Returns the survivor's new balance.
+CREATE OR REPLACE FUNCTION merge_customers(
+  survivor_id_param UUID,
+  duplicate_id_param UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  survivor customers%ROWTYPE;
+  duplicate customers%ROWTYPE;
+  locked_count INTEGER;
+  moved_transactions INTEGER;
+  new_balance INTEGER;
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  IF survivor_id_param = duplicate_id_param THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot deadlock
+  SELECT count(*) INTO locked_count
+  FROM (
+    SELECT id
+    FROM customers
+    WHERE id IN (survivor_id_param, duplicate_id_param)
+      AND tenant_id = current_tenant_id()
+      AND merged_into_id IS NULL
+    ORDER BY id
+    FOR UPDATE
+  ) locked;
+
+  IF locked_count < 2 THEN
+    RAISE EXCEPTION 'Customer % or % not found', survivor_id_param, duplicate_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO survivor FROM customers WHERE id = survivor_id_param;
+  SELECT * INTO duplicate FROM customers WHERE id = duplicate_id_param;
+  new_balance := survivor.total_points + duplicate.total_points;
+
+  UPDATE transactions
+  SET customer_id = survivor.id
+  WHERE customer_id = duplicate.id;
+  GET DIAGNOSTICS moved_transactions = ROW_COUNT;
+
+  UPDATE point_lots
+  SET customer_id = survivor.id
+  WHERE customer_id = duplicate.id;
+
+  -- Friends the duplicate referred count for the survivor, and so does the
+  -- duplicate's own pending referral unless the survivor already has one.
+  -- A referral between the two records is left on the duplicate.
+  UPDATE referrals
+  SET referrer_id = survivor.id
+  WHERE referrer_id = duplicate.id AND referee_id <> survivor.id;
+  UPDATE referrals
+  SET referee_id = survivor.id
+  WHERE referee_id = duplicate.id
+    AND status = 'pending'
+    AND referrer_id <> survivor.id
+    AND NOT EXISTS (SELECT 1 FROM referrals WHERE referee_id = survivor.id);
+
+  UPDATE customers
+  SET total_points = 0,
+      merged_into_id = survivor.id,
+      merged_at = now()
+  WHERE id = duplicate.id;
+
+  UPDATE customers
+  SET total_points = new_balance,
+      name = COALESCE(survivor.name, duplicate.name),
+      email = COALESCE(survivor.email, duplicate.email),
+      birthday = COALESCE(survivor.birthday, duplicate.birthday),
+      notes = NULLIF(concat_ws(E'\n', survivor.notes, duplicate.notes), ''),
+      last_visit_at = GREATEST(survivor.last_visit_at, duplicate.last_visit_at)
+  WHERE id = survivor.id;
+
+  -- The combined spend may qualify for a higher tier
+  PERFORM refresh_customer_tier(survivor.id);
+
+  -- Conflicts between the two are settled; others against the duplicate now concern the survivor
+  DELETE FROM phone_normalization_conflicts
+  WHERE customer_id = duplicate.id
+     OR (customer_id = survivor.id AND conflicting_customer_id = duplicate.id);
+  UPDATE phone_normalization_conflicts
+  SET conflicting_customer_id = survivor.id
+  WHERE conflicting_customer_id = duplicate.id;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, customer_id, balance_before, balance_after, details)
+  VALUES (
+    survivor.tenant_id, auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    'merge', survivor.id, survivor.total_points, new_balance,
+    jsonb_strip_nulls(jsonb_build_object(
+      'merged_customer_id', duplicate.id,
+      'merged_phone_number', duplicate.phone_number,
+      'merged_name', duplicate.name,
+      'points_moved', duplicate.total_points,
+      'transactions_moved', moved_transactions
+    ))
+  );
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION merge_customers(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_customers(UUID, UUID) TO authenticated;
@@ -0,0 +1,88 @@
+-- Open a lot for newly earned points using the tenant's expiry period
+CREATE OR REPLACE FUNCTION open_point_lot(customer_id_param UUID, transaction_id_param UUID, points_param INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO point_lots (customer_id, transaction_id, points, remaining, expires_at)
+  SELECT customer_id_param, transaction_id_param, points_param, points_param,
+         now() + make_interval(months => s.points_expiry_months)
+  FROM program_settings s
+  JOIN customers c ON c.tenant_id = s.tenant_id
+  WHERE c.id = customer_id_param;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Consume points from a customer's open lots, soonest-expiring first.
+-- Callers must already hold the customer row lock and have checked the balance.
+CREATE OR REPLACE FUNCTION consume_point_lots(customer_id_param UUID, points_param INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  lot RECORD;
+  to_consume INTEGER := points_param;
+  taken INTEGER;
+BEGIN
+  FOR lot IN
+    SELECT id, remaining
+    FROM point_lots
+    WHERE customer_id = customer_id_param AND remaining > 0
+    ORDER BY expires_at NULLS LAST, earned_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN to_consume = 0;
+    taken := LEAST(lot.remaining, to_consume);
+    UPDATE point_lots SET remaining = remaining - taken WHERE id = lot.id;
+    to_consume := to_consume - taken;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduled job: expire lots past their expiry date and post one expire
+-- transaction per customer. Returns the total number of points expired.
+CREATE OR REPLACE FUNCTION expire_points()
+RETURNS INTEGER AS $$
+DECLARE
+  expiring_customer_id UUID;
+  expired_points INTEGER;
+  total_expired INTEGER := 0;
+BEGIN
+  FOR expiring_customer_id IN
+    SELECT DISTINCT customer_id
+    FROM point_lots
+    WHERE remaining > 0 AND expires_at <= now()
+  LOOP
+    -- Lock the customer before reading the lots: a redeem that got in first
+    -- may have used up some of them, and only what is left can expire
+    PERFORM 1 FROM customers WHERE id = expiring_customer_id FOR UPDATE;
+
+    WITH expired AS (
+      UPDATE point_lots lot
+      SET remaining = 0
+      FROM (
+        SELECT id, remaining
+        FROM point_lots
+        WHERE customer_id = expiring_customer_id AND remaining > 0 AND expires_at <= now()
+        FOR UPDATE
+      ) before
+      WHERE lot.id = before.id
+      RETURNING before.remaining
+    )
+    SELECT COALESCE(SUM(remaining), 0)::INTEGER INTO expired_points FROM expired;
+
+    CONTINUE WHEN expired_points = 0;
+
+    UPDATE customers
+    SET total_points = total_points - expired_points
+    WHERE id = expiring_customer_id;
+
+    INSERT INTO transactions (customer_id, type, amount, points_changed)
+    VALUES (expiring_customer_id, 'expire', 0, -expired_points);
+
+    total_expired := total_expired + expired_points;
+  END LOOP;
+  RETURN total_expired;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Internal helpers and scheduled jobs; not callable through the API
+REVOKE ALL ON FUNCTION open_point_lot(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION consume_point_lots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_points() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,62 @@
+-- Replace the original signature that trusted the client's point cost
+DROP FUNCTION IF EXISTS redeem_points(UUID, NUMERIC, INTEGER);
+
+-- Redeem a catalog reward and record the ledger entry in one transaction
+CREATE OR REPLACE FUNCTION redeem_points(customer_id_param UUID, reward_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  new_balance INTEGER;
+  reward rewards%ROWTYPE;
+BEGIN
+  PERFORM require_staff_role('cashier', 'manager', 'admin');
+
+  SELECT * INTO reward
+  FROM rewards
+  WHERE id = reward_id_param
+    AND tenant_id = current_tenant_id()
+    AND active
+    AND (starts_at IS NULL OR starts_at <= now())
+    AND (ends_at IS NULL OR ends_at > now());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % is not available', reward_id_param USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT total_points INTO new_balance
+  FROM customers
+  WHERE id = customer_id_param AND tenant_id = current_tenant_id() AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', customer_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF new_balance < reward.points_cost OR new_balance < reward.min_balance THEN
+    RAISE EXCEPTION 'Insufficient points: balance %, requires %', new_balance, GREATEST(reward.points_cost, reward.min_balance)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  new_balance := new_balance - reward.points_cost;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = customer_id_param;
+
+  PERFORM consume_point_lots(customer_id_param, reward.points_cost);
+
+  -- Only fixed-amount rewards have a known dollar value at redemption time
+  INSERT INTO transactions (customer_id, type, amount, points_changed, reward_id)
+  VALUES (
+    customer_id_param,
+    'redeem',
+    CASE WHEN reward.reward_type = 'fixed_amount' THEN reward.value ELSE 0 END,
+    -reward.points_cost,
+    reward.id
+  );
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION redeem_points(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_points(UUID, UUID) TO authenticated;
@@ -0,0 +1,180 @@
+-- Record that referee_id_param was referred by the customer owning
+-- referral_code_param. Rejected when the code is unknown, the program is off,
+-- either side looks like the same person, the referee has already bought
+-- something or been referred, or the referrer is over the monthly limit.
+CREATE OR REPLACE FUNCTION record_referral(referee_id_param UUID, referral_code_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  referee customers%ROWTYPE;
+  referrer customers%ROWTYPE;
+  settings program_settings%ROWTYPE;
+  referral_id UUID;
+BEGIN
+  PERFORM require_staff_role('cashier', 'manager', 'admin');
+
+  SELECT * INTO settings FROM program_settings WHERE tenant_id = current_tenant_id();
+
+  IF settings.referrer_bonus_points IS NULL AND settings.referee_bonus_points IS NULL THEN
+    RAISE EXCEPTION 'The referral program is not enabled' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO referrer
+  FROM customers
+  WHERE tenant_id = current_tenant_id()
+    AND referral_code = upper(trim(referral_code_param))
+    AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown referral code %', referral_code_param USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO referee
+  FROM customers
+  WHERE id = referee_id_param AND tenant_id = current_tenant_id() AND merged_into_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', referee_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Same person: the code's owner, a record merged into them, or a pair
+  -- trying to refer each other
+  IF referee.id = referrer.id
+    OR EXISTS (
+      SELECT 1 FROM customers
+      WHERE (id = referrer.id OR merged_into_id = referrer.id)
+        AND phone_number = referee.phone_number
+    )
+    OR EXISTS (SELECT 1 FROM referrals WHERE referrer_id = referee.id AND referee_id = referrer.id)
+  THEN
+    RAISE EXCEPTION 'Customers cannot refer themselves' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A phone number earns a referral once, even if its first record was merged away
+  IF EXISTS (
+    SELECT 1 FROM referrals r
+    JOIN customers c ON c.id = r.referee_id
+    WHERE r.tenant_id = referee.tenant_id AND c.phone_number = referee.phone_number
+  ) THEN
+    RAISE EXCEPTION 'Customer % was already referred', referee.id USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Referrals are for new customers, before their first purchase
+  IF EXISTS (SELECT 1 FROM transactions WHERE customer_id = referee.id AND type = 'add') THEN
+    RAISE EXCEPTION 'Customer % has already made a purchase', referee.id USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM referrals
+    WHERE referrer_id = referrer.id
+      AND created_at >= date_trunc('month', timezone('utc'::text, now()))
+  ) >= settings.max_referrals_per_month THEN
+    RAISE EXCEPTION 'Referral limit of % per month reached', settings.max_referrals_per_month
+      USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  INSERT INTO referrals (tenant_id, referrer_id, referee_id)
+  VALUES (referee.tenant_id, referrer.id, referee.id)
+  RETURNING id INTO referral_id;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, customer_id, balance_before, balance_after, details)
+  VALUES (
+    referee.tenant_id, auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    'referral_create', referee.id, referee.total_points, referee.total_points,
+    jsonb_strip_nulls(jsonb_build_object(
+      'referral_id', referral_id,
+      'referrer_id', referrer.id,
+      'referrer_name', referrer.name,
+      'referral_code', referrer.referral_code
+    ))
+  );
+
+  RETURN referral_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Credit a referral bonus to one side of a referral and return its transaction
+CREATE OR REPLACE FUNCTION post_referral_bonus(customer_id_param UUID, points_param INTEGER, note_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_balance INTEGER;
+  transaction_id UUID;
+BEGIN
+  SELECT total_points INTO new_balance
+  FROM customers
+  WHERE id = customer_id_param
+  FOR UPDATE;
+
+  new_balance := new_balance + points_param;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = customer_id_param;
+
+  INSERT INTO transactions (customer_id, type, amount, points_changed, note)
+  VALUES (customer_id_param, 'referral', 0, points_param, note_param)
+  RETURNING id INTO transaction_id;
+
+  IF new_balance > 0 THEN
+    PERFORM open_point_lot(customer_id_param, transaction_id, LEAST(points_param, new_balance));
+  END IF;
+
+  PERFORM refresh_customer_tier(customer_id_param);
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pay out a pending referral when the referee's purchase qualifies. Called by
+-- earn_points with the referee already locked. Returns the points credited to
+-- the referee, 0 when nothing was paid.
+CREATE OR REPLACE FUNCTION reward_referral(referee_id_param UUID, transaction_id_param UUID, amount_param NUMERIC)
+RETURNS INTEGER AS $$
+DECLARE
+  referral referrals%ROWTYPE;
+  settings program_settings%ROWTYPE;
+  referrer_bonus_id UUID;
+  referee_bonus_id UUID;
+BEGIN
+  SELECT * INTO referral
+  FROM referrals
+  WHERE referee_id = referee_id_param AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO settings FROM program_settings WHERE tenant_id = referral.tenant_id;
+
+  IF amount_param < settings.referral_min_purchase THEN
+    RETURN 0;
+  END IF;
+
+  IF settings.referrer_bonus_points IS NOT NULL THEN
+    referrer_bonus_id := post_referral_bonus(referral.referrer_id, settings.referrer_bonus_points, 'Referred a friend');
+  END IF;
+
+  IF settings.referee_bonus_points IS NOT NULL THEN
+    referee_bonus_id := post_referral_bonus(referee_id_param, settings.referee_bonus_points, 'Referred by a friend');
+  END IF;
+
+  UPDATE referrals
+  SET status = 'rewarded',
+      rewarded_at = timezone('utc'::text, now()),
+      qualifying_transaction_id = transaction_id_param,
+      referrer_transaction_id = referrer_bonus_id,
+      referee_transaction_id = referee_bonus_id
+  WHERE id = referral.id;
+
+  RETURN COALESCE(settings.referee_bonus_points, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION record_referral(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_referral(UUID, TEXT) TO authenticated;
+
+-- Internal helpers; only run inside earn_points
+REVOKE ALL ON FUNCTION post_referral_bonus(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reward_referral(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,56 @@
+-- Recompute a customer's tier, from their tenant's tiers, using their spend
+-- over the trailing 12 months.
+-- Returns the tier id, which may be unchanged.
+CREATE OR REPLACE FUNCTION refresh_customer_tier(customer_id_param UUID)
+RETURNS UUID AS $$
+DECLARE
+  spend NUMERIC;
+  qualified_tier_id UUID;
+BEGIN
+  -- Voids and refunds reduce qualifying spend
+  SELECT COALESCE(SUM(CASE WHEN type = 'add' THEN amount ELSE -amount END), 0) INTO spend
+  FROM transactions
+  WHERE customer_id = customer_id_param
+    AND type IN ('add', 'void', 'refund')
+    AND created_at > now() - interval '12 months';
+
+  SELECT id INTO qualified_tier_id
+  FROM tiers
+  WHERE tenant_id = (SELECT tenant_id FROM customers WHERE id = customer_id_param)
+    AND min_spend <= spend
+  ORDER BY min_spend DESC
+  LIMIT 1;
+
+  -- Only stamp tier_achieved_at when the tier actually changes
+  UPDATE customers
+  SET tier_id = qualified_tier_id,
+      tier_achieved_at = now()
+  WHERE id = customer_id_param
+    AND tier_id IS DISTINCT FROM qualified_tier_id;
+
+  RETURN qualified_tier_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduled job: re-evaluate every customer so lapsed spend downgrades the tier.
+-- Returns the number of customers whose tier changed.
+CREATE OR REPLACE FUNCTION refresh_tiers()
+RETURNS INTEGER AS $$
+DECLARE
+  changed INTEGER := 0;
+  customer RECORD;
+  previous_tier_id UUID;
+BEGIN
+  FOR customer IN SELECT id, tier_id FROM customers LOOP
+    previous_tier_id := customer.tier_id;
+    IF refresh_customer_tier(customer.id) IS DISTINCT FROM previous_tier_id THEN
+      changed := changed + 1;
+    END IF;
+  END LOOP;
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Internal helper and scheduled job; not callable through the API
+REVOKE ALL ON FUNCTION refresh_customer_tier(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_tiers() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,106 @@
+-- Void (amount_param NULL) or partially refund an earn transaction, clawing
+-- back the points it awarded. Restricted to managers and admins.
+-- Returns the customer's new balance.
+CREATE OR REPLACE FUNCTION reverse_transaction(transaction_id_param UUID, amount_param NUMERIC DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  original transactions%ROWTYPE;
+  reversed_amount NUMERIC;
+  reversed_points INTEGER;
+  reversal_amount NUMERIC;
+  reversal_points INTEGER;
+  balance INTEGER;
+  new_balance INTEGER;
+  allow_negative BOOLEAN;
+  own_lot_remaining INTEGER;
+  from_own_lot INTEGER;
+BEGIN
+  PERFORM require_staff_role('manager', 'admin');
+
+  -- Lock the original so concurrent reversals of it serialize
+  SELECT * INTO original
+  FROM transactions
+  WHERE id = transaction_id_param AND tenant_id = current_tenant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', transaction_id_param USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF original.type <> 'add' THEN
+    RAISE EXCEPTION 'Only earn transactions can be reversed' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(-points_changed), 0)
+  INTO reversed_amount, reversed_points
+  FROM transactions
+  WHERE reverses_transaction_id = original.id;
+
+  IF amount_param IS NULL THEN
+    IF reversed_points > 0 THEN
+      RAISE EXCEPTION 'Transaction % has already been reversed', original.id USING ERRCODE = 'unique_violation';
+    END IF;
+    reversal_amount := original.amount;
+  ELSE
+    IF amount_param <= 0 OR amount_param > original.amount - reversed_amount THEN
+      RAISE EXCEPTION 'Refund must be between 0 and %', original.amount - reversed_amount
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    reversal_amount := amount_param;
+  END IF;
+
+  -- The final reversal takes whatever points are left so rounding never strands any
+  IF reversed_amount + reversal_amount >= original.amount THEN
+    reversal_points := original.points_changed - reversed_points;
+  ELSE
+    reversal_points := ROUND(original.points_changed * reversal_amount / original.amount);
+  END IF;
+
+  SELECT total_points INTO balance
+  FROM customers
+  WHERE id = original.customer_id
+  FOR UPDATE;
+
+  new_balance := balance - reversal_points;
+  SELECT allow_negative_balance INTO allow_negative FROM program_settings WHERE tenant_id = original.tenant_id;
+  IF new_balance < 0 AND NOT allow_negative THEN
+    RAISE EXCEPTION 'Reversal would leave a negative balance: balance %, reversing %', balance, reversal_points
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE customers
+  SET total_points = new_balance
+  WHERE id = original.customer_id;
+
+  -- Claw back from the purchase's own lot first, then from the oldest lots;
+  -- anything beyond the positive balance becomes a negative balance
+  SELECT COALESCE(SUM(remaining), 0) INTO own_lot_remaining
+  FROM point_lots
+  WHERE transaction_id = original.id;
+
+  from_own_lot := LEAST(own_lot_remaining, reversal_points);
+
+  UPDATE point_lots
+  SET remaining = remaining - from_own_lot
+  WHERE transaction_id = original.id;
+
+  PERFORM consume_point_lots(original.customer_id, LEAST(reversal_points, GREATEST(balance, 0)) - from_own_lot);
+
+  INSERT INTO transactions (customer_id, type, amount, points_changed, reverses_transaction_id)
+  VALUES (
+    original.customer_id,
+    CASE WHEN amount_param IS NULL THEN 'void' ELSE 'refund' END,
+    reversal_amount,
+    -reversal_points,
+    original.id
+  );
+
+  -- Reversed spend no longer counts toward the customer's tier
+  PERFORM refresh_customer_tier(original.customer_id);
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION reverse_transaction(UUID, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reverse_transaction(UUID, NUMERIC) TO authenticated;
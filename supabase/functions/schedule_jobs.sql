@@ -0,0 +1,13 @@
+-- Register recurring jobs with pg_cron when the extension is installed.
+-- Without pg_cron, run these functions from an external scheduler instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    -- Nightly at 02:00 UTC: downgrade customers whose 12-month spend lapsed
+    PERFORM cron.schedule('refresh-tiers', '0 2 * * *', 'SELECT refresh_tiers()');
+    -- Nightly at 01:00 UTC: expire lots past their expiry date
+    PERFORM cron.schedule('expire-points', '0 1 * * *', 'SELECT expire_points()');
+    -- Daily at 06:00 UTC: birthday and sign-up anniversary bonuses
+    PERFORM cron.schedule('grant-date-bonuses', '0 6 * * *', 'SELECT grant_date_bonuses()');
+  END IF;
+END $$;
@@ -0,0 +1,31 @@
+-- Type-ahead search by partial phone number, last four digits, name or email,
+-- with close matches for misspelled names, leaving out merged duplicates. Runs with
+-- the caller's rights, so row level security limits results to their tenant.
+CREATE OR REPLACE FUNCTION search_customers(query_param TEXT, limit_param INTEGER DEFAULT 10)
+RETURNS SETOF customers AS $$
+  WITH search AS (
+    SELECT btrim(query_param) AS term,
+           -- Escape LIKE wildcards typed by the user
+           regexp_replace(btrim(query_param), '([\\%_])', '\\\1', 'g') AS pattern,
+           regexp_replace(query_param, '\D', '', 'g') AS digits
+  )
+  SELECT c.*
+  FROM customers c, search s
+  WHERE length(s.term) >= 2
+    AND c.merged_into_id IS NULL
+    AND (
+      c.name ILIKE '%' || s.pattern || '%'
+      OR c.name % s.term
+      OR c.email ILIKE '%' || s.pattern || '%'
+      OR (length(s.digits) >= 3 AND c.phone_number LIKE '%' || s.digits || '%')
+    )
+  ORDER BY
+    (length(s.digits) = 4 AND right(c.phone_number, 4) = s.digits) DESC,
+    c.name ILIKE s.pattern || '%' DESC,
+    similarity(COALESCE(c.name, ''), s.term) DESC,
+    c.name NULLS LAST
+  LIMIT LEAST(GREATEST(limit_param, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION search_customers(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_customers(TEXT, INTEGER) TO authenticated;
@@ -1,3 +1,13 @@
--- Add points column to customers table
-ALTER TABLE customers
-ADD COLUMN points integer NOT NULL DEFAULT 0; 
\ No newline at end of file
+-- The app and stored procedures use total_points; rename the original points column
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'points'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'total_points'
+  ) THEN
+    ALTER TABLE customers RENAME COLUMN points TO total_points;
+  END IF;
+END $$;
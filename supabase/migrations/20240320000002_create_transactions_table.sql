@@ -0,0 +1,16 @@
+-- Create the points ledger; every balance change is recorded here
+CREATE TABLE transactions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id uuid NOT NULL REFERENCES customers(id),
+    type TEXT NOT NULL CHECK (type IN ('add', 'redeem')),
+    amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    points_changed INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- History is always read per customer, newest first
+CREATE INDEX transactions_customer_id_created_at_idx ON transactions(customer_id, created_at DESC);
+
+-- Balances are never negative; redeem_points enforces this as well
+ALTER TABLE customers
+ADD CONSTRAINT customers_total_points_check CHECK (total_points >= 0);
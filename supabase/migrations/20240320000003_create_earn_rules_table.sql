@@ -0,0 +1,26 @@
+-- Promotions and base rates used by calculate_earn() (supabase/functions/earn_points.sql)
+CREATE TABLE earn_rules (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    rule_type TEXT NOT NULL CHECK (rule_type IN ('base_rate', 'multiplier', 'threshold_bonus', 'first_purchase_bonus')),
+    -- base_rate: points per dollar; multiplier: factor applied to base points
+    multiplier NUMERIC(6, 2) CHECK (multiplier > 0),
+    -- threshold_bonus and first_purchase_bonus: flat points added
+    bonus_points INTEGER CHECK (bonus_points > 0),
+    -- threshold_bonus: minimum purchase amount that qualifies
+    min_spend NUMERIC(10, 2),
+    -- Optional conditions: purchase category and days of week (0 = Sunday)
+    category TEXT,
+    days_of_week SMALLINT[],
+    active BOOLEAN NOT NULL DEFAULT true,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK (rule_type NOT IN ('base_rate', 'multiplier') OR multiplier IS NOT NULL),
+    CHECK (rule_type NOT IN ('threshold_bonus', 'first_purchase_bonus') OR bonus_points IS NOT NULL),
+    CHECK (rule_type <> 'threshold_bonus' OR min_spend IS NOT NULL)
+);
+
+-- Record which rules contributed to each earn transaction
+ALTER TABLE transactions
+ADD COLUMN applied_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
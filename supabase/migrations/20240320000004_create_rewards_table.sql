@@ -0,0 +1,24 @@
+-- Redemption catalog; redeem_points validates every redemption against it
+CREATE TABLE rewards (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    reward_type TEXT NOT NULL CHECK (reward_type IN ('fixed_amount', 'percent_off', 'free_item')),
+    -- fixed_amount: dollars off; percent_off: percentage off the purchase
+    value NUMERIC(10, 2) CHECK (value > 0),
+    -- free_item: what the customer receives
+    item_name TEXT,
+    points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+    -- Balance required before the reward is offered, in addition to the cost
+    min_balance INTEGER NOT NULL DEFAULT 0 CHECK (min_balance >= 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK (reward_type = 'free_item' OR value IS NOT NULL),
+    CHECK (reward_type <> 'percent_off' OR value <= 100),
+    CHECK (reward_type <> 'free_item' OR item_name IS NOT NULL)
+);
+
+-- Link redemptions to the reward they claimed
+ALTER TABLE transactions
+ADD COLUMN reward_id uuid REFERENCES rewards(id);
@@ -0,0 +1,17 @@
+-- Loyalty tiers, earned by rolling 12-month spend
+CREATE TABLE tiers (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT UNIQUE NOT NULL,
+    -- Minimum spend over the trailing 12 months to qualify
+    min_spend NUMERIC(10, 2) UNIQUE NOT NULL CHECK (min_spend >= 0),
+    -- Applied to base and promotional points in the earn rules engine
+    earn_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1 CHECK (earn_multiplier >= 1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Current tier and when the customer reached it
+ALTER TABLE customers
+ADD COLUMN tier_id uuid REFERENCES tiers(id),
+ADD COLUMN tier_achieved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX customers_tier_id_idx ON customers(tier_id);
@@ -0,0 +1,41 @@
+-- Program-wide settings; a single row
+CREATE TABLE program_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    -- Months until earned points expire; NULL means points never expire
+    points_expiry_months INTEGER DEFAULT 12 CHECK (points_expiry_months > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+INSERT INTO program_settings DEFAULT VALUES;
+
+CREATE TRIGGER update_program_settings_updated_at
+    BEFORE UPDATE ON program_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Earned points are tracked as lots so they can expire and be consumed oldest first.
+-- The remaining points across a customer's lots always equal customers.total_points.
+CREATE TABLE point_lots (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id uuid NOT NULL REFERENCES customers(id),
+    -- The earn transaction that created the lot; NULL for opening balances
+    transaction_id uuid REFERENCES transactions(id),
+    points INTEGER NOT NULL CHECK (points > 0),
+    remaining INTEGER NOT NULL CHECK (remaining >= 0 AND remaining <= points),
+    earned_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Open lots are read per customer in expiry order
+CREATE INDEX point_lots_customer_id_expires_at_idx ON point_lots(customer_id, expires_at) WHERE remaining > 0;
+
+-- Allow expire transactions in the ledger
+ALTER TABLE transactions
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire'));
+
+-- Open one lot per existing balance, starting the expiry clock now
+INSERT INTO point_lots (customer_id, points, remaining, expires_at)
+SELECT id, total_points, total_points, now() + make_interval(months => (SELECT points_expiry_months FROM program_settings))
+FROM customers
+WHERE total_points > 0;
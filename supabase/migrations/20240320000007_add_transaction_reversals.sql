@@ -0,0 +1,17 @@
+-- Voids and refunds are posted as new transactions linked to the earn they reverse
+ALTER TABLE transactions
+ADD COLUMN reverses_transaction_id uuid REFERENCES transactions(id),
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire', 'void', 'refund')),
+ADD CONSTRAINT transactions_reversal_check CHECK ((type IN ('void', 'refund')) = (reverses_transaction_id IS NOT NULL));
+
+CREATE INDEX transactions_reverses_transaction_id_idx ON transactions(reverses_transaction_id)
+WHERE reverses_transaction_id IS NOT NULL;
+
+-- Whether a clawback may take a customer's balance below zero
+ALTER TABLE program_settings
+ADD COLUMN allow_negative_balance BOOLEAN NOT NULL DEFAULT false;
+
+-- Negative balances are now policy-controlled in reverse_transaction
+ALTER TABLE customers
+DROP CONSTRAINT customers_total_points_check;
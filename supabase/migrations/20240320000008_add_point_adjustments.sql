@@ -0,0 +1,22 @@
+-- Reason codes managers choose from when adjusting a balance by hand
+CREATE TABLE adjustment_reasons (
+    code TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+INSERT INTO adjustment_reasons (code, label) VALUES
+    ('goodwill', 'Goodwill gesture'),
+    ('missed_purchase', 'Missed purchase'),
+    ('correction', 'Data entry correction'),
+    ('system_error', 'System error'),
+    ('other', 'Other');
+
+-- Adjustments are posted as their own transaction type with a reason and note
+ALTER TABLE transactions
+ADD COLUMN reason_code TEXT REFERENCES adjustment_reasons(code),
+ADD COLUMN note TEXT,
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire', 'void', 'refund', 'adjust')),
+ADD CONSTRAINT transactions_reason_code_check CHECK ((type = 'adjust') = (reason_code IS NOT NULL));
@@ -0,0 +1,77 @@
+-- Staff sign in through Supabase Auth; their role (cashier, manager, admin) is
+-- the "role" claim in app_metadata, read by current_staff_role(). Grant it with:
+--   UPDATE auth.users SET raw_app_meta_data = raw_app_meta_data || '{"role": "manager"}' WHERE email = '...';
+--
+-- Anonymous requests get no access. Staff read everything; balances and the
+-- ledger only change through the SECURITY DEFINER functions in supabase/functions.
+
+-- Role of the signed-in staff member; NULL for anonymous requests
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS TEXT AS $$
+  SELECT auth.jwt() -> 'app_metadata' ->> 'role';
+$$ LANGUAGE sql STABLE;
+
+-- Raise insufficient_privilege unless the caller has one of the given roles
+CREATE OR REPLACE FUNCTION require_staff_role(VARIADIC roles_param TEXT[])
+RETURNS VOID AS $$
+BEGIN
+  IF current_staff_role() IS NULL OR NOT current_staff_role() = ANY (roles_param) THEN
+    RAISE EXCEPTION 'Requires one of the roles: %', array_to_string(roles_param, ', ')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The legacy increment_points() let any caller rewrite a balance
+DROP FUNCTION IF EXISTS increment_points(UUID, INTEGER);
+
+-- Customers: staff can look up and register customers, never set balances directly
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON customers FROM anon, authenticated;
+GRANT SELECT ON customers TO authenticated;
+GRANT INSERT (phone_number, name) ON customers TO authenticated;
+
+CREATE POLICY "Staff can read customers" ON customers
+    FOR SELECT TO authenticated
+    USING (current_staff_role() IS NOT NULL);
+
+CREATE POLICY "Staff can register customers" ON customers
+    FOR INSERT TO authenticated
+    WITH CHECK (current_staff_role() IS NOT NULL);
+
+-- Ledger and lots: read-only for staff
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON transactions FROM anon, authenticated;
+GRANT SELECT ON transactions TO authenticated;
+
+CREATE POLICY "Staff can read transactions" ON transactions
+    FOR SELECT TO authenticated
+    USING (current_staff_role() IS NOT NULL);
+
+ALTER TABLE point_lots ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON point_lots FROM anon, authenticated;
+GRANT SELECT ON point_lots TO authenticated;
+
+CREATE POLICY "Staff can read point lots" ON point_lots
+    FOR SELECT TO authenticated
+    USING (current_staff_role() IS NOT NULL);
+
+-- Program configuration: readable by staff, managed by admins
+DO $$
+DECLARE
+  config_table TEXT;
+BEGIN
+  FOREACH config_table IN ARRAY ARRAY['earn_rules', 'rewards', 'tiers', 'adjustment_reasons', 'program_settings'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', config_table);
+    EXECUTE format('REVOKE ALL ON %I FROM anon, authenticated', config_table);
+    EXECUTE format('GRANT SELECT, INSERT, UPDATE, DELETE ON %I TO authenticated', config_table);
+    EXECUTE format(
+      'CREATE POLICY "Staff can read %s" ON %I FOR SELECT TO authenticated USING (current_staff_role() IS NOT NULL)',
+      config_table, config_table
+    );
+    EXECUTE format(
+      'CREATE POLICY "Admins can manage %s" ON %I FOR ALL TO authenticated USING (current_staff_role() = ''admin'') WITH CHECK (current_staff_role() = ''admin'')',
+      config_table, config_table
+    );
+  END LOOP;
+END $$;
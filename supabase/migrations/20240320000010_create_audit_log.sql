@@ -0,0 +1,141 @@
+-- Header sent by the app on every API request (see lib/terminal.ts); NULL outside PostgREST
+CREATE OR REPLACE FUNCTION request_header(name_param TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json ->> lower(name_param);
+$$ LANGUAGE sql STABLE;
+
+-- Store id from the request, ignoring anything that is not a UUID
+CREATE OR REPLACE FUNCTION request_store_id()
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN request_header('x-store-id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN request_header('x-store-id')::uuid
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Who, where and with what effect, on every ledger entry
+ALTER TABLE transactions
+ADD COLUMN actor_id uuid,
+ADD COLUMN store_id uuid,
+ADD COLUMN terminal_id TEXT,
+ADD COLUMN balance_before INTEGER,
+ADD COLUMN balance_after INTEGER;
+
+-- Stamp context and balances on insert. The points functions update the
+-- customer's balance before inserting the transaction, so the current balance
+-- is the balance after this entry.
+CREATE OR REPLACE FUNCTION stamp_transaction_context()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.actor_id := COALESCE(NEW.actor_id, auth.uid());
+  NEW.store_id := COALESCE(NEW.store_id, request_store_id());
+  NEW.terminal_id := COALESCE(NEW.terminal_id, request_header('x-terminal-id'));
+  SELECT total_points INTO NEW.balance_after FROM customers WHERE id = NEW.customer_id;
+  NEW.balance_before := NEW.balance_after - NEW.points_changed;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_transactions_context
+    BEFORE INSERT ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_transaction_context();
+
+-- Append-only record of every balance change and customer edit
+CREATE TABLE audit_log (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    actor_id uuid,
+    store_id uuid,
+    terminal_id TEXT,
+    -- Transaction type (add, redeem, ...) or customer_create / customer_update
+    action TEXT NOT NULL,
+    customer_id uuid REFERENCES customers(id),
+    transaction_id uuid REFERENCES transactions(id),
+    balance_before INTEGER,
+    balance_after INTEGER,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX audit_log_occurred_at_idx ON audit_log(occurred_at DESC);
+CREATE INDEX audit_log_actor_id_occurred_at_idx ON audit_log(actor_id, occurred_at DESC);
+CREATE INDEX audit_log_customer_id_occurred_at_idx ON audit_log(customer_id, occurred_at DESC);
+
+CREATE OR REPLACE FUNCTION audit_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO audit_log (actor_id, store_id, terminal_id, action, customer_id, transaction_id, balance_before, balance_after, details)
+  VALUES (
+    NEW.actor_id, NEW.store_id, NEW.terminal_id, NEW.type, NEW.customer_id, NEW.id,
+    NEW.balance_before, NEW.balance_after,
+    jsonb_strip_nulls(jsonb_build_object(
+      'amount', NEW.amount,
+      'points_changed', NEW.points_changed,
+      'reward_id', NEW.reward_id,
+      'reverses_transaction_id', NEW.reverses_transaction_id,
+      'reason_code', NEW.reason_code,
+      'note', NEW.note
+    ))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_transactions
+    AFTER INSERT ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_transaction();
+
+-- Customer edits are logged with the changed fields. Balance and tier columns
+-- are maintained by the points functions and audited through transactions.
+-- Staff register and edit customers directly, so this runs as the owner to
+-- write the audit log, which staff cannot insert into.
+CREATE OR REPLACE FUNCTION audit_customer()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_columns TEXT[] := ARRAY['total_points', 'tier_id', 'tier_achieved_at', 'updated_at'];
+  before_values JSONB;
+  after_values JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    before_values := '{}'::jsonb;
+    after_values := to_jsonb(NEW) - ignored_columns;
+  ELSE
+    SELECT COALESCE(jsonb_object_agg(old_row.key, old_row.value), '{}'::jsonb),
+           COALESCE(jsonb_object_agg(old_row.key, new_row.value), '{}'::jsonb)
+    INTO before_values, after_values
+    FROM jsonb_each(to_jsonb(OLD) - ignored_columns) AS old_row
+    JOIN jsonb_each(to_jsonb(NEW) - ignored_columns) AS new_row USING (key)
+    WHERE old_row.value IS DISTINCT FROM new_row.value;
+
+    IF after_values = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, store_id, terminal_id, action, customer_id, balance_before, balance_after, details)
+  VALUES (
+    auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    CASE WHEN TG_OP = 'INSERT' THEN 'customer_create' ELSE 'customer_update' END,
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.total_points END,
+    NEW.total_points,
+    jsonb_build_object('before', before_values, 'after', after_values)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_customers
+    AFTER INSERT OR UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_customer();
+
+-- Only admins read the audit log; nobody writes it through the API
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON audit_log FROM anon, authenticated;
+GRANT SELECT ON audit_log TO authenticated;
+
+CREATE POLICY "Admins can read the audit log" ON audit_log
+    FOR SELECT TO authenticated
+    USING (current_staff_role() = 'admin');
@@ -0,0 +1,43 @@
+-- Locations sharing the loyalty program
+CREATE TABLE stores (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    code TEXT UNIQUE NOT NULL,
+    address TEXT,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Only stamp stores that exist, so a stale terminal setting cannot break inserts
+CREATE OR REPLACE FUNCTION request_store_id()
+RETURNS UUID AS $$
+  SELECT id FROM stores
+  WHERE request_header('x-store-id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND id = request_header('x-store-id')::uuid;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_store_id_fkey FOREIGN KEY (store_id) REFERENCES stores(id);
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_store_id_fkey FOREIGN KEY (store_id) REFERENCES stores(id);
+
+CREATE INDEX transactions_store_id_created_at_idx ON transactions(store_id, created_at DESC);
+
+-- The store where the customer signed up
+ALTER TABLE customers
+ADD COLUMN home_store_id uuid REFERENCES stores(id) DEFAULT request_store_id();
+
+-- Readable by staff, managed by admins, like the other program configuration
+ALTER TABLE stores ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON stores FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON stores TO authenticated;
+
+CREATE POLICY "Staff can read stores" ON stores
+    FOR SELECT TO authenticated
+    USING (current_staff_role() IS NOT NULL);
+
+CREATE POLICY "Admins can manage stores" ON stores
+    FOR ALL TO authenticated
+    USING (current_staff_role() = 'admin')
+    WITH CHECK (current_staff_role() = 'admin');
@@ -0,0 +1,210 @@
+-- Independent merchants hosted on one deployment. Each tenant has its own
+-- customers, rules, rewards, tiers, stores and settings. Staff belong to one
+-- tenant through the "tenant_id" claim in their app_metadata.
+CREATE TABLE tenants (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Subdomain or /t/<slug> path that routes to this tenant
+    slug TEXT UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9][a-z0-9-]*$'),
+    name TEXT NOT NULL,
+    logo_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Existing data becomes the default tenant
+INSERT INTO tenants (slug, name) VALUES ('default', 'Customer Points Tracker');
+
+-- Tenant of the signed-in staff member; NULL for anonymous requests
+CREATE OR REPLACE FUNCTION current_tenant_id()
+RETURNS UUID AS $$
+  SELECT NULLIF(auth.jwt() -> 'app_metadata' ->> 'tenant_id', '')::uuid;
+$$ LANGUAGE sql STABLE;
+
+-- Add tenant_id everywhere, backfilled to the default tenant. Tables staff
+-- write to directly default to the caller's tenant.
+DO $$
+DECLARE
+  tenant_table TEXT;
+  default_tenant_id UUID := (SELECT id FROM tenants WHERE slug = 'default');
+BEGIN
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'customers', 'transactions', 'point_lots', 'audit_log', 'stores',
+    'earn_rules', 'rewards', 'tiers', 'adjustment_reasons', 'program_settings'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN tenant_id uuid REFERENCES tenants(id)', tenant_table);
+    EXECUTE format('UPDATE %I SET tenant_id = %L', tenant_table, default_tenant_id);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN tenant_id SET NOT NULL', tenant_table);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN tenant_id SET DEFAULT current_tenant_id()', tenant_table);
+    EXECUTE format('CREATE INDEX %I ON %I(tenant_id)', tenant_table || '_tenant_id_idx', tenant_table);
+  END LOOP;
+END $$;
+
+-- Uniqueness is per tenant
+ALTER TABLE customers DROP CONSTRAINT customers_phone_number_key;
+DROP INDEX customers_phone_number_idx;
+ALTER TABLE customers ADD CONSTRAINT customers_tenant_id_phone_number_key UNIQUE (tenant_id, phone_number);
+
+ALTER TABLE tiers DROP CONSTRAINT tiers_name_key;
+ALTER TABLE tiers DROP CONSTRAINT tiers_min_spend_key;
+ALTER TABLE tiers ADD CONSTRAINT tiers_tenant_id_name_key UNIQUE (tenant_id, name);
+ALTER TABLE tiers ADD CONSTRAINT tiers_tenant_id_min_spend_key UNIQUE (tenant_id, min_spend);
+
+ALTER TABLE stores DROP CONSTRAINT stores_code_key;
+ALTER TABLE stores ADD CONSTRAINT stores_tenant_id_code_key UNIQUE (tenant_id, code);
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_reason_code_fkey;
+ALTER TABLE adjustment_reasons DROP CONSTRAINT adjustment_reasons_pkey;
+ALTER TABLE adjustment_reasons ADD PRIMARY KEY (tenant_id, code);
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_reason_code_fkey FOREIGN KEY (tenant_id, reason_code) REFERENCES adjustment_reasons(tenant_id, code);
+
+-- Settings become one row per tenant
+ALTER TABLE program_settings DROP COLUMN id;
+ALTER TABLE program_settings ADD PRIMARY KEY (tenant_id);
+
+-- Give new tenants their settings row and the standard reason codes
+CREATE OR REPLACE FUNCTION create_tenant_defaults()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO program_settings (tenant_id) VALUES (NEW.id);
+  INSERT INTO adjustment_reasons (tenant_id, code, label)
+  SELECT NEW.id, code, label
+  FROM adjustment_reasons
+  WHERE tenant_id = (SELECT id FROM tenants WHERE slug = 'default');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER create_tenants_defaults
+    AFTER INSERT ON tenants
+    FOR EACH ROW
+    EXECUTE FUNCTION create_tenant_defaults();
+
+-- Ledger rows and lots always belong to their customer's tenant, including
+-- those written by scheduled jobs that run without a signed-in user
+CREATE OR REPLACE FUNCTION inherit_customer_tenant()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT tenant_id INTO NEW.tenant_id FROM customers WHERE id = NEW.customer_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER inherit_transactions_tenant
+    BEFORE INSERT ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_customer_tenant();
+
+CREATE TRIGGER inherit_point_lots_tenant
+    BEFORE INSERT ON point_lots
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_customer_tenant();
+
+-- Audit entries carry the tenant of the row they describe
+CREATE OR REPLACE FUNCTION audit_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, customer_id, transaction_id, balance_before, balance_after, details)
+  VALUES (
+    NEW.tenant_id, NEW.actor_id, NEW.store_id, NEW.terminal_id, NEW.type, NEW.customer_id, NEW.id,
+    NEW.balance_before, NEW.balance_after,
+    jsonb_strip_nulls(jsonb_build_object(
+      'amount', NEW.amount,
+      'points_changed', NEW.points_changed,
+      'reward_id', NEW.reward_id,
+      'reverses_transaction_id', NEW.reverses_transaction_id,
+      'reason_code', NEW.reason_code,
+      'note', NEW.note
+    ))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION audit_customer()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_columns TEXT[] := ARRAY['tenant_id', 'total_points', 'tier_id', 'tier_achieved_at', 'updated_at'];
+  before_values JSONB;
+  after_values JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    before_values := '{}'::jsonb;
+    after_values := to_jsonb(NEW) - ignored_columns;
+  ELSE
+    SELECT COALESCE(jsonb_object_agg(old_row.key, old_row.value), '{}'::jsonb),
+           COALESCE(jsonb_object_agg(old_row.key, new_row.value), '{}'::jsonb)
+    INTO before_values, after_values
+    FROM jsonb_each(to_jsonb(OLD) - ignored_columns) AS old_row
+    JOIN jsonb_each(to_jsonb(NEW) - ignored_columns) AS new_row USING (key)
+    WHERE old_row.value IS DISTINCT FROM new_row.value;
+
+    IF after_values = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, customer_id, balance_before, balance_after, details)
+  VALUES (
+    NEW.tenant_id, auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    CASE WHEN TG_OP = 'INSERT' THEN 'customer_create' ELSE 'customer_update' END,
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.total_points END,
+    NEW.total_points,
+    jsonb_build_object('before', before_values, 'after', after_values)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Terminals can only stamp stores of the caller's tenant
+CREATE OR REPLACE FUNCTION request_store_id()
+RETURNS UUID AS $$
+  SELECT id FROM stores
+  WHERE request_header('x-store-id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND id = request_header('x-store-id')::uuid
+    AND tenant_id = current_tenant_id();
+$$ LANGUAGE sql STABLE;
+
+-- Every policy is now also scoped to the caller's tenant
+ALTER POLICY "Staff can read customers" ON customers
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+ALTER POLICY "Staff can register customers" ON customers
+    WITH CHECK (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+ALTER POLICY "Staff can read transactions" ON transactions
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+ALTER POLICY "Staff can read point lots" ON point_lots
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+ALTER POLICY "Admins can read the audit log" ON audit_log
+    USING (tenant_id = current_tenant_id() AND current_staff_role() = 'admin');
+
+DO $$
+DECLARE
+  config_table TEXT;
+BEGIN
+  FOREACH config_table IN ARRAY ARRAY['earn_rules', 'rewards', 'tiers', 'adjustment_reasons', 'program_settings', 'stores'] LOOP
+    EXECUTE format(
+      'ALTER POLICY "Staff can read %s" ON %I USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL)',
+      config_table, config_table
+    );
+    EXECUTE format(
+      'ALTER POLICY "Admins can manage %s" ON %I USING (tenant_id = current_tenant_id() AND current_staff_role() = ''admin'') WITH CHECK (tenant_id = current_tenant_id() AND current_staff_role() = ''admin'')',
+      config_table, config_table
+    );
+  END LOOP;
+END $$;
+
+-- Tenant names and logos are public so the sign-in page can be branded;
+-- admins can update their own tenant's branding
+ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON tenants FROM anon, authenticated;
+GRANT SELECT ON tenants TO anon, authenticated;
+GRANT UPDATE (name, logo_url) ON tenants TO authenticated;
+
+CREATE POLICY "Anyone can read tenant branding" ON tenants
+    FOR SELECT TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Admins can update their tenant" ON tenants
+    FOR UPDATE TO authenticated
+    USING (id = current_tenant_id() AND current_staff_role() = 'admin')
+    WITH CHECK (id = current_tenant_id() AND current_staff_role() = 'admin');
@@ -0,0 +1,137 @@
+-- Local numbers are read in the tenant's country (ISO 3166 code)
+ALTER TABLE tenants
+ADD COLUMN default_country TEXT NOT NULL DEFAULT 'US' CHECK (default_country ~ '^[A-Z]{2}$');
+
+-- SQL twin of normalizePhone() in lib/phone.ts, for migrating stored numbers.
+-- Returns the E.164 form, or NULL when the number is not valid.
+CREATE OR REPLACE FUNCTION normalize_phone(phone_param TEXT, country_param TEXT DEFAULT 'US')
+RETURNS TEXT AS $$
+DECLARE
+  digits TEXT := regexp_replace(phone_param, '\D', '', 'g');
+  international BOOLEAN := btrim(phone_param) LIKE '+%' OR digits LIKE '00%';
+  country RECORD;
+  e164 TEXT;
+BEGIN
+  IF phone_param !~ '^[+0-9\s().-]+$' THEN
+    RETURN NULL;
+  END IF;
+  IF international THEN
+    digits := regexp_replace(digits, '^00', '');
+  END IF;
+
+  -- International numbers are checked against the country their calling code
+  -- belongs to (longest code first, so +977 is not read as +97...), local
+  -- numbers against the tenant's
+  SELECT * INTO country
+  FROM (VALUES
+    ('US', '1', '1', ARRAY[10]),
+    ('CA', '1', '1', ARRAY[10]),
+    ('GB', '44', '0', ARRAY[9, 10]),
+    ('AU', '61', '0', ARRAY[9]),
+    ('NZ', '64', '0', ARRAY[8, 9, 10]),
+    ('IN', '91', '0', ARRAY[10]),
+    ('NP', '977', '0', ARRAY[8, 10])
+  ) AS c(code, calling_code, trunk_prefix, lengths)
+  WHERE CASE WHEN international THEN digits LIKE c.calling_code || '%' ELSE c.code = country_param END
+  ORDER BY length(c.calling_code) DESC
+  LIMIT 1;
+
+  IF international THEN
+    -- Numbers from other countries only need to be valid E.164
+    IF FOUND AND NOT length(digits) - length(country.calling_code) = ANY (country.lengths) THEN
+      RETURN NULL;
+    END IF;
+    e164 := '+' || digits;
+  ELSE
+    IF NOT FOUND THEN
+      RETURN NULL;
+    END IF;
+    IF digits LIKE country.trunk_prefix || '%' AND NOT length(digits) = ANY (country.lengths) THEN
+      digits := substr(digits, length(country.trunk_prefix) + 1);
+    END IF;
+    IF NOT length(digits) = ANY (country.lengths) THEN
+      RETURN NULL;
+    END IF;
+    e164 := '+' || country.calling_code || digits;
+  END IF;
+
+  RETURN CASE WHEN e164 ~ '^\+[1-9][0-9]{7,14}$' THEN e164 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+REVOKE ALL ON FUNCTION normalize_phone(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Numbers that could not be normalized automatically, left as they were for
+-- staff to fix or merge
+CREATE TABLE phone_normalization_conflicts (
+    customer_id uuid PRIMARY KEY REFERENCES customers(id) ON DELETE CASCADE,
+    tenant_id uuid NOT NULL REFERENCES tenants(id),
+    phone_number TEXT NOT NULL,
+    normalized_phone TEXT,
+    -- 'invalid': not a phone number; 'duplicate': normalizes to another customer's number
+    reason TEXT NOT NULL CHECK (reason IN ('invalid', 'duplicate')),
+    conflicting_customer_id uuid REFERENCES customers(id) ON DELETE CASCADE,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK ((reason = 'duplicate') = (conflicting_customer_id IS NOT NULL))
+);
+
+DO $$
+DECLARE
+  normalized_count INTEGER;
+  invalid_count INTEGER;
+  duplicate_count INTEGER;
+BEGIN
+  CREATE TEMPORARY TABLE phone_candidates ON COMMIT DROP AS
+  SELECT c.id, c.tenant_id, c.phone_number, c.created_at,
+         normalize_phone(c.phone_number, t.default_country) AS normalized_phone
+  FROM customers c
+  JOIN tenants t ON t.id = c.tenant_id;
+
+  INSERT INTO phone_normalization_conflicts (customer_id, tenant_id, phone_number, reason)
+  SELECT id, tenant_id, phone_number, 'invalid'
+  FROM phone_candidates
+  WHERE normalized_phone IS NULL;
+  GET DIAGNOSTICS invalid_count = ROW_COUNT;
+
+  -- Within each set of duplicates, a customer already stored in E.164 keeps
+  -- the number, otherwise the oldest does
+  INSERT INTO phone_normalization_conflicts (customer_id, tenant_id, phone_number, normalized_phone, reason, conflicting_customer_id)
+  SELECT id, tenant_id, phone_number, normalized_phone, 'duplicate', keeper_id
+  FROM (
+    SELECT *,
+           first_value(id) OVER (
+             PARTITION BY tenant_id, normalized_phone
+             ORDER BY phone_number = normalized_phone DESC, created_at, id
+           ) AS keeper_id
+    FROM phone_candidates
+    WHERE normalized_phone IS NOT NULL
+  ) ranked
+  WHERE id <> keeper_id;
+  GET DIAGNOSTICS duplicate_count = ROW_COUNT;
+
+  UPDATE customers c
+  SET phone_number = p.normalized_phone
+  FROM phone_candidates p
+  WHERE c.id = p.id
+    AND p.normalized_phone IS NOT NULL
+    AND c.phone_number <> p.normalized_phone
+    AND NOT EXISTS (SELECT 1 FROM phone_normalization_conflicts x WHERE x.customer_id = c.id);
+  GET DIAGNOSTICS normalized_count = ROW_COUNT;
+
+  RAISE NOTICE 'Normalized % phone numbers; % invalid and % duplicates recorded in phone_normalization_conflicts',
+    normalized_count, invalid_count, duplicate_count;
+END $$;
+
+-- New and edited numbers must be E.164. NOT VALID leaves the conflicting rows
+-- above in place until they are fixed.
+ALTER TABLE customers
+ADD CONSTRAINT customers_phone_number_e164_check CHECK (phone_number ~ '^\+[1-9][0-9]{7,14}$') NOT VALID;
+
+-- Managers and admins of the tenant review the conflicts
+ALTER TABLE phone_normalization_conflicts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON phone_normalization_conflicts FROM anon, authenticated;
+GRANT SELECT ON phone_normalization_conflicts TO authenticated;
+
+CREATE POLICY "Managers can read phone conflicts" ON phone_normalization_conflicts
+    FOR SELECT TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IN ('manager', 'admin'));
@@ -0,0 +1,5 @@
+-- Trigram indexes back the partial name and phone matching in search_customers()
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX customers_name_trgm_idx ON customers USING gin (name gin_trgm_ops);
+CREATE INDEX customers_phone_number_trgm_idx ON customers USING gin (phone_number gin_trgm_ops);
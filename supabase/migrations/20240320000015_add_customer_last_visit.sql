@@ -0,0 +1,71 @@
+-- Most recent purchase or redemption, for sorting the customer directory
+ALTER TABLE customers
+ADD COLUMN last_visit_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE customers c
+SET last_visit_at = visits.last_visit_at
+FROM (
+  SELECT customer_id, MAX(created_at) AS last_visit_at
+  FROM transactions
+  WHERE type IN ('add', 'redeem')
+  GROUP BY customer_id
+) visits
+WHERE visits.customer_id = c.id;
+
+CREATE OR REPLACE FUNCTION record_customer_visit()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE customers
+  SET last_visit_at = GREATEST(last_visit_at, NEW.created_at)
+  WHERE id = NEW.customer_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_transactions_visit
+    AFTER INSERT ON transactions
+    FOR EACH ROW
+    WHEN (NEW.type IN ('add', 'redeem'))
+    EXECUTE FUNCTION record_customer_visit();
+
+-- Directory sort orders
+CREATE INDEX customers_tenant_id_total_points_idx ON customers(tenant_id, total_points);
+CREATE INDEX customers_tenant_id_created_at_idx ON customers(tenant_id, created_at);
+CREATE INDEX customers_tenant_id_last_visit_at_idx ON customers(tenant_id, last_visit_at);
+
+-- Visits are not customer edits; keep them out of the audit log
+CREATE OR REPLACE FUNCTION audit_customer()
+RETURNS TRIGGER AS $$
+DECLARE
+  ignored_columns TEXT[] := ARRAY['tenant_id', 'total_points', 'tier_id', 'tier_achieved_at', 'last_visit_at', 'updated_at'];
+  before_values JSONB;
+  after_values JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    before_values := '{}'::jsonb;
+    after_values := to_jsonb(NEW) - ignored_columns;
+  ELSE
+    SELECT COALESCE(jsonb_object_agg(old_row.key, old_row.value), '{}'::jsonb),
+           COALESCE(jsonb_object_agg(old_row.key, new_row.value), '{}'::jsonb)
+    INTO before_values, after_values
+    FROM jsonb_each(to_jsonb(OLD) - ignored_columns) AS old_row
+    JOIN jsonb_each(to_jsonb(NEW) - ignored_columns) AS new_row USING (key)
+    WHERE old_row.value IS DISTINCT FROM new_row.value;
+
+    IF after_values = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (tenant_id, actor_id, store_id, terminal_id, action, customer_id, balance_before, balance_after, details)
+  VALUES (
+    NEW.tenant_id, auth.uid(), request_store_id(), request_header('x-terminal-id'),
+    CASE WHEN TG_OP = 'INSERT' THEN 'customer_create' ELSE 'customer_update' END,
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.total_points END,
+    NEW.total_points,
+    jsonb_build_object('before', before_values, 'after', after_values)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
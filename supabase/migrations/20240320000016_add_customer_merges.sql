@@ -0,0 +1,35 @@
+-- Merged duplicates are kept as tombstones pointing at the surviving customer,
+-- so old links, receipts and audit entries still resolve
+ALTER TABLE customers
+ADD COLUMN merged_into_id uuid REFERENCES customers(id),
+ADD COLUMN merged_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT customers_merged_check CHECK ((merged_into_id IS NULL) = (merged_at IS NULL)),
+ADD CONSTRAINT customers_merged_into_self_check CHECK (merged_into_id <> id);
+
+-- A tombstone keeps its phone number without blocking the survivor from taking it
+ALTER TABLE customers DROP CONSTRAINT customers_tenant_id_phone_number_key;
+CREATE UNIQUE INDEX customers_tenant_id_phone_number_key ON customers(tenant_id, phone_number)
+WHERE merged_into_id IS NULL;
+
+-- Staff can correct a customer's name and phone number; the audit trigger logs the change
+GRANT UPDATE (phone_number, name) ON customers TO authenticated;
+
+CREATE POLICY "Staff can edit customers" ON customers
+    FOR UPDATE TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL AND merged_into_id IS NULL)
+    WITH CHECK (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+
+-- A number fixed by hand no longer needs review
+CREATE OR REPLACE FUNCTION resolve_phone_conflict()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM phone_normalization_conflicts WHERE customer_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER resolve_customers_phone_conflict
+    AFTER UPDATE OF phone_number ON customers
+    FOR EACH ROW
+    WHEN (OLD.phone_number IS DISTINCT FROM NEW.phone_number)
+    EXECUTE FUNCTION resolve_phone_conflict();
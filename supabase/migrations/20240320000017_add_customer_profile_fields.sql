@@ -0,0 +1,59 @@
+-- Contact details, birthday and staff notes, all optional
+ALTER TABLE customers
+ADD COLUMN email TEXT CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+ADD COLUMN birthday DATE,
+-- How the customer would like to be reached: 'sms' or 'email'
+ADD COLUMN preferred_contact TEXT CHECK (preferred_contact IN ('sms', 'email')),
+ADD COLUMN notes TEXT,
+-- Explicit opt-in to marketing messages (see contactable_customers). The timestamp
+-- is of the latest change, whether consent was given or withdrawn.
+ADD COLUMN marketing_consent BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN marketing_consent_at TIMESTAMP WITH TIME ZONE,
+-- Where consent was captured: 'in_store', 'paper_form', 'online' or 'import'
+ADD COLUMN marketing_consent_source TEXT CHECK (marketing_consent_source IN ('in_store', 'paper_form', 'online', 'import')),
+ADD CONSTRAINT customers_marketing_consent_check CHECK (NOT marketing_consent OR marketing_consent_source IS NOT NULL);
+
+CREATE INDEX customers_email_trgm_idx ON customers USING gin (email gin_trgm_ops);
+
+-- Consent is timestamped by the database so the record cannot be backdated
+CREATE OR REPLACE FUNCTION stamp_marketing_consent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.marketing_consent_at := CASE WHEN NEW.marketing_consent THEN now() END;
+  ELSIF NEW.marketing_consent IS DISTINCT FROM OLD.marketing_consent THEN
+    NEW.marketing_consent_at := now();
+  ELSE
+    NEW.marketing_consent_at := OLD.marketing_consent_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_customers_marketing_consent
+    BEFORE INSERT OR UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_marketing_consent();
+
+-- Editable by staff along with the name and phone number
+GRANT INSERT (email, birthday, preferred_contact, notes, marketing_consent, marketing_consent_source) ON customers TO authenticated;
+GRANT UPDATE (email, birthday, preferred_contact, notes, marketing_consent, marketing_consent_source) ON customers TO authenticated;
+
+-- The only customers marketing messages may be sent to: they opted in, were
+-- not merged into another record and have an address for the channel. That
+-- channel is their preferred one when they have a preference, else text.
+-- Row level security applies as it does to customers.
+CREATE VIEW contactable_customers WITH (security_invoker = true) AS
+SELECT id, tenant_id, name, phone_number, email, COALESCE(preferred_contact, 'sms') AS contact_channel
+FROM customers
+WHERE marketing_consent
+  AND merged_into_id IS NULL
+  AND (preferred_contact IS DISTINCT FROM 'email' OR email IS NOT NULL);
+
+REVOKE ALL ON contactable_customers FROM anon, authenticated;
+GRANT SELECT ON contactable_customers TO authenticated;
+
+-- Rules that only apply around the customer's birthday, e.g. double points in
+-- their birthday month: 'day' or 'month'
+ALTER TABLE earn_rules
+ADD COLUMN birthday_window TEXT CHECK (birthday_window IN ('day', 'month'));
@@ -0,0 +1,35 @@
+-- Points granted on the customer's birthday and sign-up anniversary; NULL turns a bonus off
+ALTER TABLE program_settings
+ADD COLUMN birthday_bonus_points INTEGER CHECK (birthday_bonus_points > 0),
+ADD COLUMN anniversary_bonus_points INTEGER CHECK (anniversary_bonus_points > 0);
+
+-- Bonuses are posted as their own transaction type, without a purchase
+ALTER TABLE transactions
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire', 'void', 'refund', 'adjust', 'bonus'));
+
+-- One row per bonus granted, so a rerun of the job never grants the same one twice
+CREATE TABLE bonus_grants (
+    customer_id uuid NOT NULL REFERENCES customers(id),
+    -- 'birthday' or 'anniversary'
+    kind TEXT NOT NULL CHECK (kind IN ('birthday', 'anniversary')),
+    year INTEGER NOT NULL,
+    tenant_id uuid NOT NULL REFERENCES tenants(id),
+    transaction_id uuid NOT NULL REFERENCES transactions(id),
+    granted_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (customer_id, kind, year)
+);
+
+CREATE INDEX bonus_grants_tenant_id_idx ON bonus_grants(tenant_id);
+
+-- Birthdays are looked up by month and day
+CREATE INDEX customers_birthday_month_day_idx ON customers(tenant_id, (EXTRACT(MONTH FROM birthday)), (EXTRACT(DAY FROM birthday)))
+WHERE birthday IS NOT NULL;
+
+ALTER TABLE bonus_grants ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON bonus_grants FROM anon, authenticated;
+GRANT SELECT ON bonus_grants TO authenticated;
+
+CREATE POLICY "Staff can read bonus grants" ON bonus_grants
+    FOR SELECT TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
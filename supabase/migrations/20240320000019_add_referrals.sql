@@ -0,0 +1,84 @@
+-- Dual-sided referral rewards, paid when the referred customer makes their
+-- first qualifying purchase. NULL bonuses turn the program off.
+ALTER TABLE program_settings
+ADD COLUMN referrer_bonus_points INTEGER CHECK (referrer_bonus_points > 0),
+ADD COLUMN referee_bonus_points INTEGER CHECK (referee_bonus_points > 0),
+-- Smallest purchase that counts as the referee's qualifying purchase
+ADD COLUMN referral_min_purchase NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (referral_min_purchase >= 0),
+-- Fraud limit: referrals one customer can make per calendar month
+ADD COLUMN max_referrals_per_month INTEGER NOT NULL DEFAULT 5 CHECK (max_referrals_per_month > 0);
+
+-- Referral bonuses are posted as their own transaction type
+ALTER TABLE transactions
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire', 'void', 'refund', 'adjust', 'bonus', 'referral'));
+
+-- Six characters without look-alikes (0/O, 1/I) so codes can be read out at the till
+CREATE OR REPLACE FUNCTION generate_referral_code()
+RETURNS TEXT AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', floor(random() * 32)::INTEGER + 1, 1), '')
+  FROM generate_series(1, 6);
+$$ LANGUAGE sql VOLATILE;
+
+ALTER TABLE customers
+ADD COLUMN referral_code TEXT;
+
+CREATE OR REPLACE FUNCTION assign_referral_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  WHILE NEW.referral_code IS NULL LOOP
+    NEW.referral_code := generate_referral_code();
+    IF EXISTS (SELECT 1 FROM customers WHERE tenant_id = NEW.tenant_id AND referral_code = NEW.referral_code) THEN
+      NEW.referral_code := NULL;
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_customers_referral_code
+    BEFORE INSERT ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_referral_code();
+
+-- Give existing customers a code without logging it as an edit; a clash
+-- among 32^6 codes would fail the unique index below
+ALTER TABLE customers DISABLE TRIGGER audit_customers;
+UPDATE customers SET referral_code = generate_referral_code() WHERE referral_code IS NULL;
+ALTER TABLE customers ENABLE TRIGGER audit_customers;
+
+ALTER TABLE customers ALTER COLUMN referral_code SET NOT NULL;
+CREATE UNIQUE INDEX customers_tenant_id_referral_code_key ON customers(tenant_id, referral_code);
+
+CREATE TABLE referrals (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id uuid NOT NULL DEFAULT current_tenant_id() REFERENCES tenants(id),
+    referrer_id uuid NOT NULL REFERENCES customers(id),
+    -- A customer can only be referred once
+    referee_id uuid NOT NULL UNIQUE REFERENCES customers(id),
+    -- 'pending' until the referee's first qualifying purchase, then 'rewarded'
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'rewarded')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    rewarded_at TIMESTAMP WITH TIME ZONE,
+    -- The purchase that qualified, and the two bonus transactions it paid out
+    qualifying_transaction_id uuid REFERENCES transactions(id),
+    referrer_transaction_id uuid REFERENCES transactions(id),
+    referee_transaction_id uuid REFERENCES transactions(id),
+    CHECK (referrer_id <> referee_id),
+    CHECK ((status = 'rewarded') = (rewarded_at IS NOT NULL))
+);
+
+CREATE INDEX referrals_referrer_id_created_at_idx ON referrals(referrer_id, created_at DESC);
+CREATE INDEX referrals_tenant_id_idx ON referrals(tenant_id);
+
+-- Read-only for staff; referrals are recorded and rewarded by functions
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON referrals FROM anon, authenticated;
+GRANT SELECT ON referrals TO authenticated;
+
+CREATE POLICY "Staff can read referrals" ON referrals
+    FOR SELECT TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IS NOT NULL);
+
+-- Internal helpers; not callable through the API
+REVOKE ALL ON FUNCTION generate_referral_code() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,26 @@
+-- Points for signing up; NULL turns the bonus off. With welcome_bonus_days
+-- set, the bonus waits for a first purchase within that many days of sign-up
+-- instead of being posted straight away.
+ALTER TABLE program_settings
+ADD COLUMN welcome_bonus_points INTEGER CHECK (welcome_bonus_points > 0),
+ADD COLUMN welcome_bonus_days INTEGER CHECK (welcome_bonus_days > 0);
+
+-- Welcome bonuses are recorded once, under the year of sign-up
+ALTER TABLE bonus_grants
+DROP CONSTRAINT bonus_grants_kind_check,
+ADD CONSTRAINT bonus_grants_kind_check CHECK (kind IN ('birthday', 'anniversary', 'welcome'));
+
+CREATE OR REPLACE FUNCTION welcome_new_customer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT welcome_bonus_days IS NULL FROM program_settings WHERE tenant_id = NEW.tenant_id) THEN
+    PERFORM grant_welcome_bonus(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER welcome_customers
+    AFTER INSERT ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION welcome_new_customer();
@@ -0,0 +1,7 @@
+-- What one point is worth in dollars, for reporting the outstanding balance
+-- as a liability. The default matches the 100 points = $10 reward ladder.
+ALTER TABLE program_settings
+ADD COLUMN point_value NUMERIC(10, 4) NOT NULL DEFAULT 0.10 CHECK (point_value >= 0);
+
+-- Dashboard aggregates scan the tenant's ledger by date
+CREATE INDEX transactions_tenant_id_created_at_idx ON transactions(tenant_id, created_at);
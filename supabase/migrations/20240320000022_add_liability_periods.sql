@@ -0,0 +1,35 @@
+-- Closed accounting periods: the points liability roll-forward as it stood
+-- when the period was closed. Rows are never updated, so a closed period
+-- reports the same figures forever.
+CREATE TABLE liability_periods (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id uuid NOT NULL DEFAULT current_tenant_id() REFERENCES tenants(id),
+    -- First and last day of the period, inclusive
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    opening_points BIGINT NOT NULL,
+    issued_points BIGINT NOT NULL,
+    redeemed_points BIGINT NOT NULL,
+    expired_points BIGINT NOT NULL,
+    -- Net of manual additions and deductions
+    adjusted_points BIGINT NOT NULL,
+    closing_points BIGINT NOT NULL,
+    -- Dollar value of a point at close, and the balances valued at it
+    point_value NUMERIC(10, 4) NOT NULL,
+    opening_liability NUMERIC(12, 2) NOT NULL,
+    closing_liability NUMERIC(12, 2) NOT NULL,
+    closed_by uuid,
+    closed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (tenant_id, period_start),
+    CHECK (period_end >= period_start),
+    CHECK (closing_points = opening_points + issued_points - redeemed_points - expired_points + adjusted_points)
+);
+
+-- Managers read the closed periods; only close_liability_period() writes them
+ALTER TABLE liability_periods ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON liability_periods FROM anon, authenticated;
+GRANT SELECT ON liability_periods TO authenticated;
+
+CREATE POLICY "Managers can read liability periods" ON liability_periods
+    FOR SELECT TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IN ('manager', 'admin'));
@@ -0,0 +1,34 @@
+-- Bulk imports of existing customers, e.g. from the spreadsheet a business
+-- kept before joining the program. Each file imported is one batch; the
+-- customers it created point back at it.
+CREATE TABLE customer_imports (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id uuid NOT NULL DEFAULT current_tenant_id() REFERENCES tenants(id),
+    file_name TEXT NOT NULL,
+    customers_created INTEGER NOT NULL DEFAULT 0,
+    -- Rows the database turned away, e.g. a number that is already a customer's
+    rows_skipped INTEGER NOT NULL DEFAULT 0,
+    -- Sum of the opening balances posted
+    points_imported BIGINT NOT NULL DEFAULT 0,
+    imported_by uuid,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX customer_imports_tenant_id_created_at_idx ON customer_imports(tenant_id, created_at DESC);
+
+ALTER TABLE customers
+ADD COLUMN import_id uuid REFERENCES customer_imports(id);
+
+-- Opening balances carried over from the old system
+ALTER TABLE transactions
+DROP CONSTRAINT transactions_type_check,
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('add', 'redeem', 'expire', 'void', 'refund', 'adjust', 'bonus', 'referral', 'import'));
+
+-- Managers read the import history; only import_customers() writes it
+ALTER TABLE customer_imports ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON customer_imports FROM anon, authenticated;
+GRANT SELECT ON customer_imports TO authenticated;
+
+CREATE POLICY "Managers can read customer imports" ON customer_imports
+    FOR SELECT TO authenticated
+    USING (tenant_id = current_tenant_id() AND current_staff_role() IN ('manager', 'admin'));
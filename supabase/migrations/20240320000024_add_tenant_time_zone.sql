@@ -0,0 +1,4 @@
+-- The tenant's IANA time zone, for rules that depend on the day or date
+-- (weekday promotions, birthday bonuses). An unknown zone fails the check.
+ALTER TABLE tenants
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC' CHECK ((now() AT TIME ZONE time_zone) IS NOT NULL);
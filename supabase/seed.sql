@@ -0,0 +1,90 @@
+-- Sample data belongs to the default tenant; column defaults read the
+-- tenant from the JWT claims, so impersonate one of its staff while seeding
+SELECT set_config('request.jwt.claims', json_build_object('app_metadata', json_build_object('tenant_id', id))::TEXT, false)
+FROM tenants WHERE slug = 'default';
+
+-- Locations
+INSERT INTO stores (id, name, code, address) VALUES
+    ('aaaaaaaa-0000-0000-0000-000000000001', 'Downtown', 'DT', '100 Main St'),
+    ('aaaaaaaa-0000-0000-0000-000000000002', 'Riverside', 'RS', '42 River Rd');
+
+-- Loyalty tiers by trailing 12-month spend
+INSERT INTO tiers (name, min_spend, earn_multiplier) VALUES
+    ('Bronze', 0, 1),
+    ('Silver', 500, 1.25),
+    ('Gold', 1500, 1.5);
+
+-- Sample customers with ledgers that add up to their balances
+INSERT INTO customers (id, phone_number, name, total_points, home_store_id, email, birthday, preferred_contact, marketing_consent, marketing_consent_source) VALUES
+    ('11111111-1111-1111-1111-111111111111', '+15551234567', 'Alice Johnson', 130, 'aaaaaaaa-0000-0000-0000-000000000001', 'alice@example.com', '1988-07-14', 'email', true, 'in_store'),
+    ('22222222-2222-2222-2222-222222222222', '+15559876543', 'Bob Smith', 45, 'aaaaaaaa-0000-0000-0000-000000000002', NULL, NULL, NULL, false, NULL),
+    ('33333333-3333-3333-3333-333333333333', '+15550001111', NULL, 0, 'aaaaaaaa-0000-0000-0000-000000000001', NULL, NULL, NULL, false, NULL);
+
+INSERT INTO transactions (customer_id, type, amount, points_changed, created_at, store_id) VALUES
+    ('11111111-1111-1111-1111-111111111111', 'add', 120, 120, now() - interval '30 days', 'aaaaaaaa-0000-0000-0000-000000000001'),
+    ('11111111-1111-1111-1111-111111111111', 'add', 110, 110, now() - interval '10 days', 'aaaaaaaa-0000-0000-0000-000000000002'),
+    ('11111111-1111-1111-1111-111111111111', 'redeem', 10, -100, now() - interval '2 days', 'aaaaaaaa-0000-0000-0000-000000000001'),
+    ('22222222-2222-2222-2222-222222222222', 'add', 45, 45, now() - interval '5 days', 'aaaaaaaa-0000-0000-0000-000000000002');
+
+-- Open lots for the seeded balances (migrations only backfill existing rows)
+INSERT INTO point_lots (customer_id, points, remaining, earned_at, expires_at) VALUES
+    ('11111111-1111-1111-1111-111111111111', 130, 130, now() - interval '10 days', now() + interval '12 months' - interval '10 days'),
+    ('22222222-2222-2222-2222-222222222222', 45, 45, now() - interval '5 days', now() + interval '12 months' - interval '5 days');
+
+-- Default earn rules: 1 point per $1, plus sample promotions
+INSERT INTO earn_rules (name, rule_type, multiplier, bonus_points, min_spend, category, days_of_week) VALUES
+    ('1 point per $1', 'base_rate', 1, NULL, NULL, NULL, NULL),
+    ('Double points weekends', 'multiplier', 2, NULL, NULL, NULL, '{0,6}'),
+    ('Triple points on coffee', 'multiplier', 3, NULL, NULL, 'coffee', NULL),
+    ('50 bonus points over $100', 'threshold_bonus', NULL, 50, 100, NULL, NULL),
+    ('Welcome: 25 points on first purchase', 'first_purchase_bonus', NULL, 25, NULL, NULL, NULL);
+
+INSERT INTO earn_rules (name, rule_type, multiplier, birthday_window) VALUES
+    ('Double points in your birthday month', 'multiplier', 2, 'month');
+
+-- Granted by the daily grant_date_bonuses() job
+UPDATE program_settings
+SET birthday_bonus_points = 50, anniversary_bonus_points = 25
+WHERE tenant_id = current_tenant_id();
+
+-- Posted when a customer signs up
+UPDATE program_settings
+SET welcome_bonus_points = 20
+WHERE tenant_id = current_tenant_id();
+
+-- Both sides of a referral get points once the new customer spends $20
+UPDATE program_settings
+SET referrer_bonus_points = 100, referee_bonus_points = 50, referral_min_purchase = 20
+WHERE tenant_id = current_tenant_id();
+
+-- Redemption catalog: the original 100 points = $10 ladder plus sample rewards
+INSERT INTO rewards (name, reward_type, value, item_name, points_cost, min_balance) VALUES
+    ('$10 off', 'fixed_amount', 10, NULL, 100, 0),
+    ('$20 off', 'fixed_amount', 20, NULL, 200, 0),
+    ('$50 off', 'fixed_amount', 50, NULL, 500, 0),
+    ('15% off your purchase', 'percent_off', 15, NULL, 250, 300),
+    ('Free coffee', 'free_item', NULL, 'Coffee', 80, 0);
+
+-- Assign tiers from the sample ledger
+SELECT refresh_tiers();
+
+-- A second merchant, reachable at /t/harbor-bakery, sharing a phone number
+-- with the default tenant to show that customers are kept apart
+INSERT INTO tenants (id, slug, name) VALUES
+    ('bbbbbbbb-0000-0000-0000-000000000001', 'harbor-bakery', 'Harbor Bakery');
+
+SELECT set_config('request.jwt.claims', '{"app_metadata": {"tenant_id": "bbbbbbbb-0000-0000-0000-000000000001"}}', false);
+
+INSERT INTO stores (id, name, code, address) VALUES
+    ('bbbbbbbb-0000-0000-0000-000000000002', 'Harbor Bakery', 'DT', '7 Quay St');
+
+INSERT INTO earn_rules (name, rule_type, multiplier) VALUES
+    ('2 points per $1', 'base_rate', 2);
+
+INSERT INTO rewards (name, reward_type, item_name, points_cost) VALUES
+    ('Free croissant', 'free_item', 'Croissant', 60);
+
+INSERT INTO customers (phone_number, name, home_store_id) VALUES
+    ('+15551234567', 'Alice Johnson', 'bbbbbbbb-0000-0000-0000-000000000002');
+
+SELECT set_config('request.jwt.claims', '', false);
@@ -0,0 +1,49 @@
+-- Rebuild the full schema on a fresh database:
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/setup.sql
+
+-- Migrations, in order
+\ir migrations/20240320000000_create_customers_table.sql
+\ir migrations/20240320000001_add_points_column.sql
+\ir migrations/20240320000002_create_transactions_table.sql
+\ir migrations/20240320000003_create_earn_rules_table.sql
+\ir migrations/20240320000004_create_rewards_table.sql
+\ir migrations/20240320000005_create_tiers_table.sql
+\ir migrations/20240320000006_create_point_lots_table.sql
+\ir migrations/20240320000007_add_transaction_reversals.sql
+\ir migrations/20240320000008_add_point_adjustments.sql
+\ir migrations/20240320000009_enable_row_level_security.sql
+\ir migrations/20240320000010_create_audit_log.sql
+\ir migrations/20240320000011_create_stores_table.sql
+\ir migrations/20240320000012_add_tenants.sql
+\ir migrations/20240320000013_normalize_phone_numbers.sql
+\ir migrations/20240320000014_add_customer_search_indexes.sql
+\ir migrations/20240320000015_add_customer_last_visit.sql
+\ir migrations/20240320000016_add_customer_merges.sql
+\ir migrations/20240320000017_add_customer_profile_fields.sql
+\ir migrations/20240320000018_add_date_bonuses.sql
+\ir migrations/20240320000019_add_referrals.sql
+\ir migrations/20240320000020_add_welcome_bonus.sql
+\ir migrations/20240320000021_add_point_value.sql
+\ir migrations/20240320000022_add_liability_periods.sql
+\ir migrations/20240320000023_add_customer_imports.sql
+\ir migrations/20240320000024_add_tenant_time_zone.sql
+
+-- Stored procedures
+\ir functions/point_lots.sql
+\ir functions/refresh_tiers.sql
+\ir functions/adjust_points.sql
+\ir functions/analytics.sql
+\ir functions/date_bonuses.sql
+\ir functions/earn_points.sql
+\ir functions/import_customers.sql
+\ir functions/liability.sql
+\ir functions/list_staff.sql
+\ir functions/merge_customers.sql
+\ir functions/redeem_points.sql
+\ir functions/referrals.sql
+\ir functions/reverse_transaction.sql
+\ir functions/search_customers.sql
+\ir functions/schedule_jobs.sql
+
+-- Sample data
+\ir seed.sql